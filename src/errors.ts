@@ -0,0 +1,238 @@
+/**
+ * Machine-readable error codes
+ */
+export type LocaleOSErrorCode =
+  | 'auth'
+  | 'rate_limit'
+  | 'invalid_input'
+  | 'network'
+  | 'server'
+  | 'parse'
+  | 'timeout'
+  | 'aborted'
+  | 'circuit_open'
+  | 'unknown';
+
+/**
+ * Base class for all errors raised by the LocaleOS SDK
+ */
+export class LocaleOSError extends Error {
+  /**
+   * Machine-readable error code
+   */
+  public readonly code: LocaleOSErrorCode;
+
+  /**
+   * HTTP status code, when the error came from an API response
+   */
+  public readonly status?: number;
+
+  /**
+   * Underlying error, if any
+   */
+  public readonly cause?: unknown;
+
+  constructor(
+    message: string,
+    options: { code?: LocaleOSErrorCode; status?: number; cause?: unknown } = {}
+  ) {
+    super(message);
+    this.name = 'LocaleOSError';
+    this.code = options.code || 'unknown';
+    this.status = options.status;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * The API key is missing, invalid or not allowed to access the resource (401/403)
+ */
+export class AuthenticationError extends LocaleOSError {
+  constructor(message: string, status?: number) {
+    super(message, { code: 'auth', status });
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * The rate limit or plan quota was exceeded (429/402)
+ */
+export class RateLimitError extends LocaleOSError {
+  /**
+   * Seconds to wait before retrying, from the Retry-After header (null if not provided)
+   */
+  public readonly retryAfter: number | null;
+
+  constructor(message: string, status?: number, retryAfter: number | null = null) {
+    super(message, { code: 'rate_limit', status });
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * The request was rejected because of invalid input, such as a malformed IP address (400/422)
+ */
+export class InvalidInputError extends LocaleOSError {
+  constructor(message: string, status?: number) {
+    super(message, { code: 'invalid_input', status });
+    this.name = 'InvalidInputError';
+  }
+}
+
+/**
+ * The request could not reach the API (offline, DNS, CORS or CSP failure)
+ */
+export class NetworkError extends LocaleOSError {
+  constructor(message: string, cause?: unknown) {
+    super(message, { code: 'network', cause });
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The request did not complete within the configured timeout
+ */
+export class TimeoutError extends LocaleOSError {
+  constructor(message: string) {
+    super(message, { code: 'timeout' });
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * The request was cancelled through its AbortSignal
+ */
+export class AbortError extends LocaleOSError {
+  constructor(message: string, cause?: unknown) {
+    super(message, { code: 'aborted', cause });
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * The request was not sent because the API failed repeatedly and the circuit breaker is open
+ */
+export class CircuitOpenError extends LocaleOSError {
+  /**
+   * Seconds until requests are attempted again
+   */
+  public readonly retryAfter: number;
+
+  constructor(message: string, retryAfter: number) {
+    super(message, { code: 'circuit_open' });
+    this.name = 'CircuitOpenError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * The API failed to handle the request (5xx)
+ */
+export class ServerError extends LocaleOSError {
+  constructor(message: string, status?: number) {
+    super(message, { code: 'server', status });
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * The API response could not be parsed or had an unexpected shape
+ */
+export class ParseError extends LocaleOSError {
+  constructor(message: string, cause?: unknown) {
+    super(message, { code: 'parse', cause });
+    this.name = 'ParseError';
+  }
+}
+
+/**
+ * Result of a call made with `toResult`
+ */
+export type LocaleOSResult<T> =
+  | { ok: true; data: T; error?: undefined }
+  | { ok: false; data?: undefined; error: LocaleOSError };
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into seconds
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds);
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+
+  return null;
+}
+
+/**
+ * Error payload of a failed API response
+ */
+interface ErrorResponseBody {
+  error?: string;
+  message?: string;
+}
+
+/**
+ * Check if a parsed response body is an object whose `error` and `message`, when present, are strings
+ */
+function isErrorResponseBody(body: unknown): body is ErrorResponseBody {
+  if (typeof body !== 'object' || body === null) return false;
+  const { error, message } = body as Record<string, unknown>;
+  return (error === undefined || typeof error === 'string') && (message === undefined || typeof message === 'string');
+}
+
+/**
+ * Create the matching LocaleOSError for a failed API response
+ * @param body Parsed response body, if it could be read; only a string `error` or `message` is used
+ */
+export function createErrorFromResponse(response: Response, body?: unknown): LocaleOSError {
+  const status = response.status;
+  const details = isErrorResponseBody(body) ? body : {};
+  const message = details.error || details.message || `API returned status ${status}`;
+
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(message, status);
+  }
+  if (status === 402 || status === 429) {
+    return new RateLimitError(message, status, parseRetryAfter(response.headers.get('Retry-After')));
+  }
+  if (status === 400 || status === 404 || status === 422) {
+    return new InvalidInputError(message, status);
+  }
+  if (status >= 500) {
+    return new ServerError(message, status);
+  }
+
+  return new LocaleOSError(message, { status });
+}
+
+/**
+ * Wrap any error in a LocaleOSError, leaving LocaleOSErrors untouched
+ */
+export function toLocaleOSError(error: unknown): LocaleOSError {
+  if (error instanceof LocaleOSError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new LocaleOSError(message, { cause: error });
+}
+
+/**
+ * Convert a call into a discriminated result instead of throwing
+ * Use with `errorMode: 'throw'` so failures reach the result
+ *
+ * @example
+ * const result = await toResult(LocaleOS.getTimezone());
+ * if (result.ok) console.log(result.data.name);
+ * else if (result.error instanceof RateLimitError) retryIn(result.error.retryAfter);
+ */
+export async function toResult<T>(promise: Promise<T>): Promise<LocaleOSResult<T>> {
+  try {
+    return { ok: true, data: await promise };
+  } catch (error) {
+    return { ok: false, error: toLocaleOSError(error) };
+  }
+}
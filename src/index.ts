@@ -1,5 +1,7 @@
 import type {
   LocaleOSConfig,
+  TrackingEvent,
+  TrackingProperties,
   TrackingResponse,
   LocationInfo,
   TimezoneInfo,
@@ -7,20 +9,94 @@ import type {
   ASNInfo,
   CompanyInfo,
   ComprehensiveIPData,
+  IPDataResource,
+  CacheAdapter,
+  CacheResource,
+  BulkLookupOptions,
+  BulkLookupResult,
+  ConsentState,
+  QueueConfig,
+  FingerprintOptions,
+  DeviceInfo,
+  LocaleInfo,
+  RiskAssessment,
+  RiskClientSignals,
+  GeoRule,
+  RequestOptions,
+  LocaleOSEvent,
+  LocaleOSListener,
+  LocaleOSSnapshot,
 } from './types';
-import { getPersistentFingerprint, generateFingerprint } from './utils/fingerprint';
-import { getDeviceInfo, isBrowser } from './utils/device';
+import {
+  getPersistentFingerprint,
+  generateFingerprint,
+  clearPersistentFingerprint,
+  collectFingerprintComponentsAsync,
+} from './utils/fingerprint';
+import { hasEnabledCollectors } from './utils/collectors';
+import { hasPrivacySignal, loadConsent, saveConsent } from './utils/consent';
+import { detectAutomation, getDeviceInfo, getDetailedDeviceInfo, isBrowser } from './utils/device';
+import { EventQueue } from './utils/queue';
+import type { IPLookupResponse } from './utils/location';
+import { mapLocationResponse } from './utils/location';
+import { HttpClient } from './utils/http';
+import { Credentials, isSecretKey } from './utils/auth';
+import { InFlightRequests } from './utils/inflight';
+import { Store } from './utils/store';
+import { assertValidNamespace, getStorageKey } from './utils/storage';
+import { runBulkLookup } from './utils/bulk';
+import { getLocaleInfo } from './utils/locale';
+import { assessRisk } from './utils/risk';
+import { evaluateGeoRules } from './utils/geo-rules';
+import { assertValidIP, normalizeIP } from './utils/ip';
+import { getCacheKey, LocalStorageCache, MemoryCache } from './utils/cache';
+import { LocaleOSError, AbortError, InvalidInputError, ParseError, toLocaleOSError } from './errors';
+
+/**
+ * Clients by the storage namespace they use ('' for the default), to warn about shared storage
+ */
+const activeNamespaces = new Map<string, LocaleOSAnalytics>();
+
+/**
+ * Check if two configurations are equal, comparing top-level values by reference
+ */
+function isSameConfig(a: LocaleOSConfig, b: LocaleOSConfig): boolean {
+  const keys = Object.keys(a) as Array<keyof LocaleOSConfig>;
+  return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key]);
+}
 
 class LocaleOSAnalytics {
-  private apiKey: string = '';
+  private credentials: Credentials | null = null;
   private apiUrl: string = '';
   private analyticsEnabled: boolean = false;
   private fingerprint: string | null = null;
   private initialized = false;
+  private config: LocaleOSConfig | null = null;
+  private namespace: string | undefined = undefined;
   private locationCache: LocationInfo | null = null;
   private cacheDuration: number = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
-  private cacheKey = 'localeos_location_cache';
+  private cache: CacheAdapter = new MemoryCache();
+  private legacyCacheKey = 'localeos_location_cache';
   private ipDetectionEndpoint: string = '';
+  private eventQueue: EventQueue | null = null;
+  private errorMode: 'silent' | 'throw' = 'silent';
+  private inFlight = new InFlightRequests();
+  private http = new HttpClient((input, init) => fetch(input, init));
+  private ipCache: { ip: string; expiresAt: number } | null = null;
+  private ipCacheDuration: number = 60 * 1000; // 1 minute in milliseconds
+  private customCache: CacheAdapter | null = null;
+  private queueConfig: QueueConfig | null = null;
+  private consent: ConsentState = { analytics: false, fingerprinting: false, storage: false };
+  private visitTracked = false;
+  private fingerprintOptions: FingerprintOptions = {};
+  private fingerprintReady: Promise<void> = Promise.resolve();
+  private automationDetected = false;
+  private store = new Store<LocaleOSSnapshot, LocaleOSEvent>({
+    ip: null,
+    location: null,
+    consent: { analytics: false, fingerprinting: false, storage: false },
+    error: null,
+  });
 
   constructor() {
     // Empty constructor - configuration happens in init()
@@ -35,36 +111,284 @@ class LocaleOSAnalytics {
       return;
     }
 
-    if (!config.apiKey) {
-      throw new Error('API key is required to initialize LocaleOS Analytics');
+    if (!config.apiKey && !config.getToken) {
+      throw new Error('An API key or getToken callback is required to initialize LocaleOS Analytics');
+    }
+
+    if (config.apiKey && isSecretKey(config.apiKey)) {
+      throw new Error(
+        'Secret API keys must not be used in the browser; use a publishable key or getToken with tokens from createToken()'
+      );
+    }
+
+    const namespace = config.namespace ? assertValidNamespace(config.namespace) : undefined;
+
+    // Calling init() again with the same configuration is a no-op; a changed configuration
+    // is applied without re-sending the visit unless the API key or namespace changed
+    if (this.initialized) {
+      if (this.config && isSameConfig(this.config, config)) return;
+      const credentialsChanged = config.apiKey !== this.config?.apiKey || config.getToken !== this.config?.getToken;
+      this.reset(credentialsChanged || namespace !== this.namespace);
     }
 
-    // Store API key securely
-    this.apiKey = config.apiKey;
+    this.config = config;
+    this.claimNamespace(namespace);
+
+    // Authenticate API requests with the publishable key or tokens from getToken, sent in headers
+    this.credentials = new Credentials(config);
+    this.http.authenticate(this.credentials);
 
     // Set API URL (custom or default)
     this.apiUrl = config.apiUrl || this.getDefaultApiUrl();
     this.analyticsEnabled = config.analytics || false;
 
+    // Skip tracking for likely bots and headless browsers (enabled by default)
+    if (this.analyticsEnabled && config.botDetection !== false) {
+      const threshold = typeof config.botDetection === 'object' ? config.botDetection.threshold : undefined;
+      const automation = detectAutomation(threshold);
+      if (automation.isBot) {
+        console.warn('[LocaleOS] Automated browser detected, analytics tracking is disabled:', automation.reasons);
+        this.automationDetected = true;
+        this.analyticsEnabled = false;
+      }
+    }
+
     // Set cache duration (defaults to 24 hours)
     if (config.cacheDuration !== undefined) {
       this.cacheDuration = config.cacheDuration;
     }
 
+    // Set cache storage (defaults to localStorage once storage consent is granted)
+    this.customCache = config.cache || null;
+    this.removeLegacyCache();
+
+    // Set IP detection cache duration (defaults to 1 minute)
+    if (config.ipCacheDuration !== undefined) {
+      this.ipCacheDuration = config.ipCacheDuration;
+    }
+
+    // Set error mode (defaults to logging errors and returning null)
+    this.errorMode = config.errorMode || 'silent';
+
+    // Set timeout, retry and circuit breaker settings for API requests
+    this.http.configure(config);
+
     // Set IP detection endpoint (use custom or default to LocaleOS API)
     this.ipDetectionEndpoint = config.ipDetectionEndpoint || `${this.apiUrl}/api/my-ip`;
 
-    // Always use internal fingerprinting
-    this.fingerprint = getPersistentFingerprint();
+    // Set fingerprint options
+    this.fingerprintOptions = config.fingerprint || {};
+
+    // Batched event queue is set up once analytics consent is granted
+    if (config.queue) {
+      this.queueConfig = config.queue === true ? {} : config.queue;
+    }
+
+    // Resolve consent: a stored choice wins, otherwise follow the configured mode
+    const mode = config.consent || 'granted';
+    const respectPrivacySignals = config.respectPrivacySignals ?? true;
+    const storedConsent = loadConsent(this.namespace);
+
+    if (storedConsent) {
+      this.consent = storedConsent;
+    } else if (mode === 'granted') {
+      this.consent = this.getDefaultConsent(respectPrivacySignals);
+    } else {
+      this.consent = { analytics: false, fingerprinting: false, storage: false };
+    }
 
     this.initialized = true;
 
-    // Automatically track visit if analytics is enabled
-    if (this.analyticsEnabled) {
+    // Set up fingerprinting, storage and tracking allowed by consent
+    this.applyConsent();
+
+    // Outside the EU, auto mode grants consent once the visitor's location is known
+    if (mode === 'auto' && !storedConsent) {
+      this.resolveAutoConsent(respectPrivacySignals);
+    }
+  }
+
+  /**
+   * Undo the previous init() before a new configuration is applied
+   * @param newApp - Whether the API key or namespace changed, so the visit is tracked again
+   * @private
+   */
+  private reset(newApp: boolean): void {
+    if (this.eventQueue) {
+      this.eventQueue.stop();
+      this.eventQueue = null;
+    }
+
+    this.initialized = false;
+    this.automationDetected = false;
+
+    if (newApp) {
+      this.visitTracked = false;
+      this.fingerprint = null;
+      // Storage-backed caches are recreated under the new namespace by applyConsent()
+      this.cache = new MemoryCache();
+    }
+  }
+
+  /**
+   * Register the storage namespace used by this client
+   * Warns when another client already stores its data under the same namespace
+   * @private
+   */
+  private claimNamespace(namespace?: string): void {
+    const previous = this.namespace || '';
+    if (activeNamespaces.get(previous) === this) {
+      activeNamespaces.delete(previous);
+    }
+
+    const key = namespace || '';
+    const owner = activeNamespaces.get(key);
+    if (owner && owner !== this) {
+      console.warn(
+        `[LocaleOS] Another client already uses the ${namespace ? `"${namespace}"` : 'default'} storage namespace, ` +
+          'set a different `namespace` to keep their data apart'
+      );
+    } else {
+      activeNamespaces.set(key, this);
+    }
+
+    this.namespace = namespace;
+  }
+
+  /**
+   * Update the visitor's consent
+   * The choice is remembered across visits and applied immediately:
+   * granting analytics sends the deferred visit, withdrawing fingerprinting or storage
+   * removes the stored fingerprint, cached lookups and queued events
+   * @param consent - Consent to grant or withdraw; omitted fields keep their current value
+   */
+  public setConsent(consent: Partial<ConsentState>): void {
+    if (!isBrowser()) return;
+
+    this.consent = { ...this.consent, ...consent };
+    saveConsent(this.consent, this.namespace);
+
+    if (this.initialized) {
+      this.applyConsent();
+    }
+  }
+
+  /**
+   * Get the visitor's current consent
+   */
+  public getConsent(): ConsentState {
+    return { ...this.consent };
+  }
+
+  /**
+   * Consent granted when no choice has been made, honouring privacy signals
+   * @private
+   */
+  private getDefaultConsent(respectPrivacySignals: boolean): ConsentState {
+    const optedOut = respectPrivacySignals && hasPrivacySignal();
+    return { analytics: !optedOut, fingerprinting: !optedOut, storage: true };
+  }
+
+  /**
+   * Grant default consent for visitors outside the EU
+   * EU visitors, and visitors whose location cannot be determined, stay pending
+   * @private
+   */
+  private async resolveAutoConsent(respectPrivacySignals: boolean): Promise<void> {
+    try {
+      const data = await this.fetchIPData<ComprehensiveIPData>();
+
+      // An explicit choice made in the meantime takes precedence
+      if (data.is_eu || loadConsent(this.namespace)) return;
+
+      this.consent = this.getDefaultConsent(respectPrivacySignals);
+      this.applyConsent();
+    } catch (error) {
+      console.warn('[LocaleOS] Could not determine visitor region, consent stays pending:', error);
+    }
+  }
+
+  /**
+   * Enable or disable fingerprinting, storage and tracking according to consent
+   * @private
+   */
+  private applyConsent(): void {
+    const { analytics, fingerprinting, storage } = this.consent;
+
+    const previous = this.store.getSnapshot().consent;
+    if (previous.analytics !== analytics || previous.fingerprinting !== fingerprinting || previous.storage !== storage) {
+      const consent = { ...this.consent };
+      this.store.update({ consent }, { type: 'consent:changed', consent });
+    }
+
+    // Storage: fall back to an in-memory cache without storage consent
+    if (this.customCache) {
+      this.cache = this.customCache;
+    } else if (storage && !(this.cache instanceof LocalStorageCache)) {
+      this.cache = new LocalStorageCache(getStorageKey('cache:', this.namespace));
+    } else if (!storage && this.cache instanceof LocalStorageCache) {
+      this.cache.clear();
+      this.cache = new MemoryCache();
+    }
+
+    // Fingerprinting: only persist the fingerprint with storage consent
+    if (!fingerprinting) {
+      this.fingerprint = null;
+      clearPersistentFingerprint(this.namespace);
+    } else {
+      this.fingerprintReady = this.updateFingerprint();
+    }
+
+    // Event queue: only runs with analytics consent, persisted with storage consent
+    const queueKey = storage ? getStorageKey('event_queue', this.namespace) : null;
+    if (this.analyticsEnabled && analytics && this.queueConfig) {
+      if (!this.eventQueue) {
+        this.eventQueue = new EventQueue(
+          queueKey,
+          {
+            send: events => this.sendBatchRequest(events),
+            beacon: events => this.sendBeaconRequest(events),
+          },
+          this.queueConfig
+        );
+        this.eventQueue.start();
+      } else {
+        this.eventQueue.setStorageKey(queueKey);
+      }
+    } else if (this.eventQueue) {
+      this.eventQueue.stop();
+      this.eventQueue.discard();
+      this.eventQueue = null;
+    }
+
+    // Automatically track visit once analytics is enabled and consented
+    if (this.analyticsEnabled && analytics && !this.visitTracked) {
+      this.visitTracked = true;
       this.sendTrackingRequest();
     }
   }
 
+  /**
+   * Generate the fingerprint, waiting for enabled collectors first
+   * Without collectors this completes synchronously
+   */
+  private async updateFingerprint(): Promise<void> {
+    const components = hasEnabledCollectors(this.fingerprintOptions)
+      ? await collectFingerprintComponentsAsync(this.fingerprintOptions)
+      : undefined;
+
+    // Consent may have changed while collectors were running
+    const { fingerprinting, storage } = this.consent;
+    if (!fingerprinting) return;
+
+    if (storage) {
+      this.fingerprint = getPersistentFingerprint(this.fingerprintOptions, components, this.namespace);
+    } else {
+      clearPersistentFingerprint(this.namespace);
+      this.fingerprint = this.fingerprint || generateFingerprint(components, this.fingerprintOptions);
+    }
+  }
+
   /**
    * Get device information
    */
@@ -73,283 +397,541 @@ class LocaleOSAnalytics {
     return getDeviceInfo();
   }
 
+  /**
+   * Get device information including high entropy User-Agent Client Hints
+   * (exact browser version, Windows 11, device model, architecture)
+   */
+  public async getDetailedDeviceInfo(): Promise<DeviceInfo | null> {
+    if (!isBrowser()) return null;
+    return getDetailedDeviceInfo();
+  }
+
   /**
    * Get user's IP address from configured endpoint
+   * Concurrent calls share one request and the result is cached briefly
    * @private
    */
-  private async getUserIP(): Promise<string> {
-    const ipResponse = await fetch(this.ipDetectionEndpoint);
-    const ipData = await ipResponse.json();
-    return ipData.ip;
+  private async getUserIP(options: RequestOptions = {}): Promise<string> {
+    if (this.ipCache && this.ipCache.expiresAt > Date.now()) {
+      return this.ipCache.ip;
+    }
+
+    return this.inFlight.run('ip', async shared => {
+      // The IP detection endpoint may be your own, so credentials are never sent to it
+      const ipData = await this.http.request<{ ip?: string }>(
+        this.ipDetectionEndpoint,
+        {},
+        { signal: shared, timeout: options.timeout, auth: false }
+      );
+
+      if (!ipData.ip) {
+        throw new ParseError('IP detection endpoint did not return an "ip" field');
+      }
+
+      const ip = normalizeIP(ipData.ip);
+      if (!ip) {
+        throw new ParseError(`IP detection endpoint returned an invalid IP address: ${ipData.ip}`);
+      }
+
+      if (this.ipCacheDuration > 0) {
+        this.ipCache = { ip, expiresAt: Date.now() + this.ipCacheDuration };
+      }
+
+      const previousIp = this.store.getSnapshot().ip;
+      if (ip !== previousIp) {
+        this.store.update({ ip }, { type: 'ip:changed', ip, previousIp });
+      }
+
+      return ip;
+    }, options.signal);
   }
 
   /**
    * Get location information from IP address
    * Includes country, city, timezone, currency, and device information
-   * Uses localStorage cache to prevent unnecessary API calls
-   * Automatically invalidates cache if IP address changes
+   * Uses the configured cache (localStorage by default) to prevent unnecessary API calls
+   * Cache entries are keyed by IP, so a changed IP address always gets fresh data
+   * @param options - Signal and timeout for this call (optional)
    */
-  public async getLocationInfo(): Promise<LocationInfo | null> {
+  public async getLocationInfo(options?: RequestOptions): Promise<LocationInfo | null> {
     if (!isBrowser()) return null;
 
     try {
-      // Always check current IP first (lightweight call)
-      // Get user IP from configured endpoint
-      const currentIp = await this.getUserIP();
-      
-
-      // Check if we have memory cache and IP matches
-      if (this.locationCache && this.locationCache.ip === currentIp) {
-        return this.locationCache;
-      }
-
-      // Check localStorage cache if caching is enabled
-      if (this.cacheDuration > 0) {
-        const cached = this.getFromCache();
-
-        // Validate cached IP matches current IP
-        if (cached && cached.ip === currentIp) {
-          this.locationCache = cached;
-          return cached;
-        } else if (cached && cached.ip !== currentIp) {
-          // IP changed - clear stale cache
-          console.log('[LocaleOS] IP address changed, invalidating cache');
-          this.clearCache();
-        }
-      }
+      return await this.loadLocationInfo(options);
+    } catch (error) {
+      return this.handleError(error, 'Error fetching location info');
+    }
+  }
 
-      // Fetch fresh location data
-      const locationResponse = await fetch(
-        `${this.apiUrl}/api/ip-lookup?ip=${currentIp}&api_key=${this.apiKey}`
-      );
-      const locationData = await locationResponse.json();
-
-      if (locationData.status === 'success') {
-        // Get client-side device info
-        const clientDeviceInfo = getDeviceInfo();
-
-        this.locationCache = {
-          ip: currentIp,
-          country: locationData.country,
-          countryCode: locationData.country_code,
-          region: locationData.region,
-          city: locationData.city,
-          postalCode: locationData.postal_code,
-          latitude: locationData.latitude,
-          longitude: locationData.longitude,
-          timezone: locationData.timezone,
-          currency: locationData.currency,
-          currencySymbol: locationData.currency_symbol,
-          deviceInfo: {
-            client: clientDeviceInfo,
-            server: locationData.device,
-          },
-        };
+  /**
+   * Load location info for the user's current IP, from cache or the API
+   * @private
+   */
+  private async loadLocationInfo(options: RequestOptions = {}): Promise<LocationInfo> {
+    // Always check current IP first (lightweight call)
+    // Get user IP from configured endpoint
+    const currentIp = await this.getUserIP(options);
+
+    // Check if we have memory cache and IP matches
+    if (this.locationCache && this.locationCache.ip === currentIp) {
+      return this.locationCache;
+    }
 
-        // Save to localStorage cache if caching is enabled
-        if (this.cacheDuration > 0) {
-          this.saveToCache(this.locationCache);
-        }
+    // Check persistent cache if caching is enabled
+    const cached = await this.getFromCache<LocationInfo>('location', currentIp);
+    if (cached) {
+      this.locationCache = cached;
+      this.setLocation(cached);
+      return cached;
+    }
 
-        return this.locationCache;
-      }
+    // Fetch fresh location data
+    const url = `${this.apiUrl}/api/ip-lookup?ip=${encodeURIComponent(currentIp)}`;
+    const locationData = await this.inFlight.run(
+      `ip-lookup:${currentIp}`,
+      shared => this.http.request<IPLookupResponse>(url, {}, { signal: shared, timeout: options.timeout }),
+      options.signal
+    );
 
-      return null;
-    } catch (error) {
-      console.error('[LocaleOS] Error fetching location info:', error);
-      return null;
+    if (locationData.status !== 'success') {
+      throw new LocaleOSError(locationData.message || 'IP lookup failed');
     }
+
+    // Get client-side device info
+    const clientDeviceInfo = await getDetailedDeviceInfo();
+
+    this.locationCache = mapLocationResponse(currentIp, locationData, clientDeviceInfo);
+
+    // Save to persistent cache if caching is enabled
+    await this.saveToCache('location', currentIp, this.locationCache);
+
+    this.setLocation(this.locationCache);
+    return this.locationCache;
+  }
+
+  /**
+   * Publish loaded location info to subscribers
+   * @private
+   */
+  private setLocation(location: LocationInfo): void {
+    this.store.update({ location, error: null }, { type: 'location:updated', location });
   }
 
   /**
    * Get comprehensive IP data in ipdata.co format
    * @param ip - Optional IP address (defaults to user's IP)
+   * @param options - Signal and timeout for this call (optional)
    * @returns Complete IP intelligence data
    */
-  public async getComprehensiveData(ip?: string): Promise<ComprehensiveIPData | null> {
+  public async getComprehensiveData(ip?: string, options?: RequestOptions): Promise<ComprehensiveIPData | null> {
     if (!isBrowser()) return null;
 
     try {
-      // Get user's IP if not provided
-      let targetIp = ip;
-      if (!targetIp) {
-        // Get user IP from configured endpoint
-        const currentIp = await this.getUserIP();
-        targetIp = currentIp;
-      }
-
-      // Fetch comprehensive data from ipdata endpoint with API key
-      const response = await fetch(`${this.apiUrl}/api/ipdata/${targetIp}?api_key=${this.apiKey}`);
+      return await this.fetchIPData<ComprehensiveIPData>(ip, undefined, options);
+    } catch (error) {
+      return this.handleError(error, 'Error fetching comprehensive IP data');
+    }
+  }
 
-      if (!response.ok) {
-        throw new Error(`API returned status ${response.status}`);
-      }
+  /**
+   * Look up many IP addresses at once
+   * Input is validated and deduplicated, cached entries are served first, and the rest
+   * are fetched in batches with bounded concurrency
+   * @param ips - IP addresses to look up
+   * @param options - Batch size, concurrency, signal and timeout
+   * @returns Map of IP address to its comprehensive data or a per-IP error
+   */
+  public async getBulkData(ips: string[], options?: BulkLookupOptions): Promise<BulkLookupResult | null> {
+    if (!isBrowser()) return null;
 
-      const data: ComprehensiveIPData = await response.json();
-      return data;
+    try {
+      return await runBulkLookup(
+        ips,
+        {
+          getCached: ip => this.getFromCache<ComprehensiveIPData>('comprehensive', ip),
+          fetchBatch: batch =>
+            this.http.request<ComprehensiveIPData[]>(
+              `${this.apiUrl}/api/ipdata/bulk`,
+              {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(batch),
+              },
+              { signal: options?.signal, timeout: options?.timeout }
+            ),
+          saveToCache: (ip, data) => this.saveToCache('comprehensive', ip, data),
+        },
+        options
+      );
     } catch (error) {
-      console.error('[LocaleOS] Error fetching comprehensive IP data:', error);
-      return null;
+      return this.handleError(error, 'Error fetching bulk IP data');
     }
   }
 
   /**
    * Get timezone information for an IP address
    * @param ip - Optional IP address (defaults to user's IP)
+   * @param options - Signal and timeout for this call (optional)
    * @returns Timezone details including abbreviation, offset, and DST status
    */
-  public async getTimezone(ip?: string): Promise<TimezoneInfo | null> {
+  public async getTimezone(ip?: string, options?: RequestOptions): Promise<TimezoneInfo | null> {
     if (!isBrowser()) return null;
 
     try {
-      // Get user's IP if not provided
-      let targetIp = ip;
-      if (!targetIp) {
-        // Get user IP from configured endpoint
-        const currentIp = await this.getUserIP();
-        targetIp = currentIp;
-      }
-
-      // Fetch timezone data with API key
-      const response = await fetch(`${this.apiUrl}/api/ipdata/${targetIp}/time_zone?api_key=${this.apiKey}`);
-
-      if (!response.ok) {
-        throw new Error(`API returned status ${response.status}`);
-      }
-
-      const data: TimezoneInfo = await response.json();
-      return data;
+      return await this.fetchIPData<TimezoneInfo>(ip, 'time_zone', options);
     } catch (error) {
-      console.error('[LocaleOS] Error fetching timezone info:', error);
-      return null;
+      return this.handleError(error, 'Error fetching timezone info');
     }
   }
 
   /**
    * Get currency information for an IP address
    * @param ip - Optional IP address (defaults to user's IP)
+   * @param options - Signal and timeout for this call (optional)
    * @returns Currency details including code, symbol, and name
    */
-  public async getCurrency(ip?: string): Promise<CurrencyInfo | null> {
+  public async getCurrency(ip?: string, options?: RequestOptions): Promise<CurrencyInfo | null> {
     if (!isBrowser()) return null;
 
     try {
-      // Get user's IP if not provided
-      let targetIp = ip;
-      if (!targetIp) {
-        // Get user IP from configured endpoint
-        const currentIp = await this.getUserIP();
-        targetIp = currentIp;
-      }
-
-      // Fetch currency data with API key
-      const response = await fetch(`${this.apiUrl}/api/ipdata/${targetIp}/currency?api_key=${this.apiKey}`);
-
-      if (!response.ok) {
-        throw new Error(`API returned status ${response.status}`);
-      }
-
-      const data: CurrencyInfo = await response.json();
-      return data;
+      return await this.fetchIPData<CurrencyInfo>(ip, 'currency', options);
     } catch (error) {
-      console.error('[LocaleOS] Error fetching currency info:', error);
-      return null;
+      return this.handleError(error, 'Error fetching currency info');
     }
   }
 
   /**
    * Get ASN (Autonomous System Number) information for an IP address
    * @param ip - Optional IP address (defaults to user's IP)
+   * @param options - Signal and timeout for this call (optional)
    * @returns ASN details including organization name, domain, and route
    */
-  public async getASN(ip?: string): Promise<ASNInfo | null> {
+  public async getASN(ip?: string, options?: RequestOptions): Promise<ASNInfo | null> {
     if (!isBrowser()) return null;
 
     try {
-      // Get user's IP if not provided
-      let targetIp = ip;
-      if (!targetIp) {
-        // Get user IP from configured endpoint
-        const currentIp = await this.getUserIP();
-        targetIp = currentIp;
-      }
+      return await this.fetchIPData<ASNInfo>(ip, 'asn', options);
+    } catch (error) {
+      return this.handleError(error, 'Error fetching ASN info');
+    }
+  }
+
+  /**
+   * Get company information for an IP address
+   * @param ip - Optional IP address (defaults to user's IP)
+   * @param options - Signal and timeout for this call (optional)
+   * @returns Company details including name, domain, and network
+   */
+  public async getCompany(ip?: string, options?: RequestOptions): Promise<CompanyInfo | null> {
+    if (!isBrowser()) return null;
 
-      // Fetch ASN data with API key
-      const response = await fetch(`${this.apiUrl}/api/ipdata/${targetIp}/asn?api_key=${this.apiKey}`);
+    try {
+      return await this.fetchIPData<CompanyInfo>(ip, 'company', options);
+    } catch (error) {
+      return this.handleError(error, 'Error fetching company info');
+    }
+  }
 
-      if (!response.ok) {
-        throw new Error(`API returned status ${response.status}`);
-      }
+  /**
+   * Get the visitor's locale with ready-made formatters
+   * Combines navigator.languages with the IP country, languages, currency and timezone
+   * @param ip - Optional IP address (defaults to user's IP)
+   * @param options - Signal and timeout for this call (optional)
+   * @returns Locale, measurement system, first day of week and Intl formatters
+   */
+  public async getLocaleInfo(ip?: string, options?: RequestOptions): Promise<LocaleInfo | null> {
+    if (!isBrowser()) return null;
 
-      const data: ASNInfo = await response.json();
-      return data;
+    try {
+      const data = await this.fetchIPData<ComprehensiveIPData>(ip, undefined, options);
+      return getLocaleInfo(data);
     } catch (error) {
-      console.error('[LocaleOS] Error fetching ASN info:', error);
-      return null;
+      return this.handleError(error, 'Error resolving locale');
     }
   }
 
   /**
-   * Get company information for an IP address
+   * Assess the risk of a visit for fraud checks (e.g. at signup or checkout)
+   * Combines VPN, proxy, Tor, hosting and threat flags with mismatches between
+   * the browser timezone/languages and the IP location
+   * Browser signals are only compared when assessing the visitor's own IP (no `ip` argument)
    * @param ip - Optional IP address (defaults to user's IP)
-   * @returns Company details including name, domain, and network
+   * @param options - Signal and timeout for this call (optional)
+   * @returns Score, level, verdict and the signals that contributed
    */
-  public async getCompany(ip?: string): Promise<CompanyInfo | null> {
+  public async getRiskAssessment(ip?: string, options?: RequestOptions): Promise<RiskAssessment | null> {
     if (!isBrowser()) return null;
 
     try {
-      // Get user's IP if not provided
-      let targetIp = ip;
-      if (!targetIp) {
-        // Get user IP from configured endpoint
-        const currentIp = await this.getUserIP();
-        targetIp = currentIp;
-      }
+      const data = await this.fetchIPData<ComprehensiveIPData>(ip, undefined, options);
+      const client: RiskClientSignals = ip
+        ? {}
+        : {
+            timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+            languages: navigator.languages,
+            automation: detectAutomation(),
+          };
+      return assessRisk(data, client);
+    } catch (error) {
+      return this.handleError(error, 'Error assessing risk');
+    }
+  }
+
+  /**
+   * Pick a variant for the visitor from declarative geo rules
+   * Rules are checked in order and the first match wins; add `when: {}` last as the default
+   * @param rules - Rules over country, continent, EU, region, ASN, CIDR, privacy flags and device type
+   * @param ip - Optional IP address (defaults to user's IP)
+   * @param options - Signal and timeout for this call (optional)
+   * @returns The matching variant, or null if no rule matches
+   */
+  public async getGeoVariant<V>(rules: GeoRule<V>[], ip?: string, options?: RequestOptions): Promise<V | null> {
+    if (!isBrowser()) return null;
 
-      // Fetch company data with API key
-      const response = await fetch(`${this.apiUrl}/api/ipdata/${targetIp}/company?api_key=${this.apiKey}`);
+    try {
+      const data = await this.fetchIPData<ComprehensiveIPData>(ip, undefined, options);
+      return evaluateGeoRules(rules, data);
+    } catch (error) {
+      return this.handleError(error, 'Error evaluating geo rules');
+    }
+  }
+
+  /**
+   * Fetch an `/api/ipdata` resource for an IP address
+   * Detects the user's IP when none is provided
+   * Results are cached per IP and resource type
+   * Sub-resources are served from cached or in-flight comprehensive data when available,
+   * and concurrent requests for the same resource share one network call
+   * @private
+   */
+  private async fetchIPData<T>(ip?: string, resource?: IPDataResource, options?: RequestOptions): Promise<T> {
+    // Validate the provided IP before any request is made
+    const validIp = ip ? assertValidIP(ip) : undefined;
+    return this.loadIPData<T>(validIp, resource, options);
+  }
+
+  /**
+   * Load an `/api/ipdata` resource from cache, a pending request or the API
+   * @private
+   */
+  private async loadIPData<T>(
+    ip: string | undefined,
+    resource: IPDataResource | undefined,
+    options: RequestOptions = {}
+  ): Promise<T> {
+    const { signal, timeout } = options;
+
+    // Get user's IP if not provided
+    const targetIp = ip || (await this.getUserIP(options));
+    const url = `${this.apiUrl}/api/ipdata/${encodeURIComponent(targetIp)}`;
+
+    if (resource) {
+      const cached = await this.getFromCache<T>(resource, targetIp);
+      if (cached) return cached;
+
+      const comprehensive = await this.getFromCache<ComprehensiveIPData>('comprehensive', targetIp);
+      if (comprehensive && comprehensive[resource] !== undefined) {
+        return comprehensive[resource] as T;
+      }
 
-      if (!response.ok) {
-        throw new Error(`API returned status ${response.status}`);
+      const pending = this.inFlight.join<ComprehensiveIPData>(`ipdata:${targetIp}`, signal);
+      if (pending) {
+        const data = await pending;
+        if (data[resource] !== undefined) {
+          return data[resource] as T;
+        }
       }
 
-      const data: CompanyInfo = await response.json();
+      const data = await this.inFlight.run(
+        `ipdata:${targetIp}/${resource}`,
+        shared => this.http.request<T>(`${url}/${resource}`, {}, { signal: shared, timeout }),
+        signal
+      );
+      await this.saveToCache(resource, targetIp, data);
       return data;
-    } catch (error) {
-      console.error('[LocaleOS] Error fetching company info:', error);
+    }
+
+    const cached = await this.getFromCache<T>('comprehensive', targetIp);
+    if (cached) return cached;
+
+    const data = await this.inFlight.run(
+      `ipdata:${targetIp}`,
+      shared => this.http.request<ComprehensiveIPData>(url, {}, { signal: shared, timeout }),
+      signal
+    );
+    await this.saveToCache('comprehensive', targetIp, data);
+
+    return data as T;
+  }
+
+  /**
+   * Handle a failed lookup according to the configured error mode
+   * Throws a LocaleOSError in 'throw' mode, otherwise logs it and returns null
+   * @private
+   */
+  private handleError(error: unknown, message: string): null {
+    const localeOSError = toLocaleOSError(error);
+
+    // Cancelled calls are expected, so they are neither logged nor published
+    if (localeOSError instanceof AbortError) {
+      if (this.errorMode === 'throw') throw localeOSError;
       return null;
     }
+
+    this.store.update({ error: localeOSError }, { type: 'error', error: localeOSError, message });
+
+    if (this.errorMode === 'throw') {
+      throw localeOSError;
+    }
+
+    console.error(`[LocaleOS] ${message}:`, localeOSError);
+    return null;
+  }
+
+  /**
+   * Track a custom event
+   * Requires the SDK to be initialized with `analytics: true`
+   * @param event - Event name (e.g., 'signup', 'button_click')
+   * @param properties - Optional custom event properties
+   * @returns Tracking response including the log ID of the stored event
+   */
+  public async track<P extends TrackingProperties = TrackingProperties>(
+    event: string,
+    properties?: P
+  ): Promise<TrackingResponse> {
+    if (!isBrowser()) {
+      return { success: false, error: 'Tracking is only available in a browser environment' };
+    }
+
+    if (!this.initialized) {
+      console.warn('[LocaleOS] Call init() before tracking events');
+      return { success: false, error: 'LocaleOS Analytics is not initialized' };
+    }
+
+    if (this.automationDetected) {
+      return { success: false, error: 'Analytics is disabled for automated browsers' };
+    }
+
+    if (!this.analyticsEnabled) {
+      return { success: false, error: 'Analytics is disabled' };
+    }
+
+    if (!this.consent.analytics) {
+      return { success: false, error: 'Analytics consent not granted' };
+    }
+
+    // Like lookup errors, a missing event name only throws with errorMode 'throw'
+    if (!event) {
+      const error = new InvalidInputError('Event name is required to track an event');
+      if (this.errorMode === 'throw') throw error;
+      console.error('[LocaleOS] Error tracking event:', error);
+      return { success: false, error: error.message };
+    }
+
+    const payload: TrackingEvent<P> = {
+      event,
+      properties,
+      timestamp: new Date().toISOString(),
+      url: window.location.href,
+      referrer: document.referrer || undefined,
+    };
+
+    return this.sendTrackingRequest(payload);
+  }
+
+  /**
+   * Send all queued events immediately, batch by batch
+   * Only applies when the SDK is initialized with `queue` enabled
+   * @returns true if every queued event was delivered
+   */
+  public async flush(): Promise<boolean> {
+    if (!this.eventQueue) return false;
+    return this.eventQueue.flush();
   }
 
   /**
    * Send tracking request to the API
+   * Without an event payload this records a plain visit
+   * When the event queue is enabled the event is queued instead of sent immediately
    */
-  private async sendTrackingRequest(): Promise<boolean> {
+  private async sendTrackingRequest(payload: TrackingEvent = {}): Promise<TrackingResponse> {
+    await this.fingerprintReady;
+
+    if (this.eventQueue) {
+      this.eventQueue.enqueue({ ...payload, fingerprint: this.fingerprint });
+      return this.trackSent(payload, { success: true, message: 'Event queued' });
+    }
+
     try {
-      const response = await fetch(`${this.apiUrl}/api/track`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-API-Key': this.apiKey,
+      // Events are not retried, since a request that timed out may still have been stored
+      const response = await this.http.request<TrackingResponse>(
+        `${this.apiUrl}/api/track`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            ...payload,
+            fingerprint: this.fingerprint,
+          }),
         },
-        body: JSON.stringify({
-          fingerprint: this.fingerprint,
-        }),
-      });
-
-      const data: TrackingResponse = await response.json();
+        { retry: false }
+      );
+      return this.trackSent(payload, response);
+    } catch (error) {
+      const localeOSError = toLocaleOSError(error);
+      console.error('[LocaleOS] Error tracking event:', localeOSError);
+      this.store.emit({ type: 'error', error: localeOSError, message: 'Error tracking event' });
+      return { success: false, error: localeOSError.message };
+    }
+  }
 
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to track event');
-      }
+  /**
+   * Notify subscribers of a tracked event or visit
+   * @private
+   */
+  private trackSent(payload: TrackingEvent, response: TrackingResponse): TrackingResponse {
+    this.store.emit({ type: 'track:sent', event: payload.event || null, response });
+    return response;
+  }
 
+  /**
+   * Send a batch of queued events to the API
+   */
+  private async sendBatchRequest(events: TrackingEvent[]): Promise<boolean> {
+    try {
+      // The queue retries failed batches itself with backoff
+      await this.http.request<unknown>(
+        `${this.apiUrl}/api/track/batch`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ events }),
+        },
+        { retry: false }
+      );
       return true;
     } catch (error) {
-      console.error('[LocaleOS] Error tracking event:', error);
+      console.error('[LocaleOS] Error sending event batch:', toLocaleOSError(error));
       return false;
     }
   }
 
+  /**
+   * Send a batch of queued events with navigator.sendBeacon
+   * Beacons cannot carry custom headers, so the API key or current token is sent in the body
+   */
+  private sendBeaconRequest(events: TrackingEvent[]): boolean {
+    const credential = this.credentials?.getBodyCredential();
+    if (typeof navigator.sendBeacon !== 'function' || !credential) return false;
+
+    // text/plain keeps the beacon a CORS-safelisted request
+    const body = new Blob([JSON.stringify({ ...credential, events })], {
+      type: 'text/plain',
+    });
+
+    return navigator.sendBeacon(`${this.apiUrl}/api/track/batch`, body);
+  }
+
   /**
    * Get default API URL based on current environment
    */
@@ -361,67 +943,99 @@ class LocaleOSAnalytics {
   }
 
   /**
-   * Save location data to localStorage cache
+   * Save a lookup result to the cache
+   * Skipped when caching is disabled
    */
-  private saveToCache(data: LocationInfo): void {
-    if (!isBrowser()) return;
+  private async saveToCache<T>(resource: CacheResource, ip: string, data: T): Promise<void> {
+    if (this.cacheDuration <= 0) return;
 
     try {
-      const cacheData = {
-        data,
-        timestamp: Date.now(),
-      };
-      localStorage.setItem(this.cacheKey, JSON.stringify(cacheData));
+      await this.cache.set(getCacheKey(resource, ip), data, this.cacheDuration);
     } catch (error) {
-      console.warn('[LocaleOS] Failed to save cache to localStorage:', error);
+      console.warn('[LocaleOS] Failed to save cache:', error);
     }
   }
 
   /**
-   * Get location data from localStorage cache
-   * Returns null if cache is expired or invalid
+   * Get a lookup result from the cache
+   * Returns null if caching is disabled or the entry is missing or expired
    */
-  private getFromCache(): LocationInfo | null {
-    if (!isBrowser()) return null;
+  private async getFromCache<T>(resource: CacheResource, ip: string): Promise<T | null> {
+    if (this.cacheDuration <= 0) return null;
 
     try {
-      const cached = localStorage.getItem(this.cacheKey);
-      if (!cached) return null;
-
-      const { data, timestamp } = JSON.parse(cached);
-      const now = Date.now();
-
-      // Check if cache is still valid
-      if (now - timestamp < this.cacheDuration) {
-        return data;
-      }
-
-      // Cache expired, remove it
-      this.clearCache();
-      return null;
+      return await this.cache.get<T>(getCacheKey(resource, ip));
     } catch (error) {
-      console.warn('[LocaleOS] Failed to read cache from localStorage:', error);
+      console.warn('[LocaleOS] Failed to read cache:', error);
       return null;
     }
   }
 
   /**
-   * Clear the location cache from both memory and localStorage
+   * Remove the single-entry location cache used by earlier versions
+   */
+  private removeLegacyCache(): void {
+    try {
+      localStorage.removeItem(this.legacyCacheKey);
+    } catch (error) {
+      // localStorage unavailable - nothing to clean up
+    }
+  }
+
+  /**
+   * Clear all cached lookups from memory and the configured cache storage
    * Useful when you want to force a fresh fetch of location data
    */
   public clearCache(): void {
     this.locationCache = null;
+    this.ipCache = null;
 
-    if (isBrowser()) {
-      try {
-        localStorage.removeItem(this.cacheKey);
-      } catch (error) {
-        console.warn('[LocaleOS] Failed to clear cache from localStorage:', error);
+    try {
+      const cleared = this.cache.clear();
+      if (cleared) {
+        cleared.catch(error => console.warn('[LocaleOS] Failed to clear cache:', error));
       }
+    } catch (error) {
+      console.warn('[LocaleOS] Failed to clear cache:', error);
     }
+
+    this.store.update({ location: null }, { type: 'cache:cleared' });
+  }
+
+  /**
+   * Subscribe to state changes and events
+   * Listeners receive `location:updated`, `ip:changed`, `cache:cleared`, `consent:changed`,
+   * `track:sent` and `error` events; read the new state with getSnapshot()
+   * @param listener - Called with each event
+   * @returns Function that removes the listener
+   */
+  public subscribe(listener: LocaleOSListener): () => void {
+    return this.store.subscribe(listener);
+  }
+
+  /**
+   * Get the current state: detected IP, location info, consent and the last lookup error
+   * The same object is returned until the state changes
+   */
+  public getSnapshot(): LocaleOSSnapshot {
+    return this.store.getSnapshot();
   }
 }
 
+/**
+ * Create and initialize an independent client, e.g. for micro-frontends or multi-tenant dashboards
+ * Give each client its own `namespace` so their fingerprints, consent, queues and caches stay apart
+ *
+ * @example
+ * const billing = createClient({ apiKey: 'billing-key', namespace: 'billing' });
+ * const support = createClient({ apiKey: 'support-key', namespace: 'support' });
+ */
+export function createClient(config: LocaleOSConfig): LocaleOSAnalytics {
+  const client = new LocaleOSAnalytics();
+  client.init(config);
+  return client;
+}
+
 // Create singleton instance
 const localeOS = new LocaleOSAnalytics();
 
@@ -434,12 +1048,131 @@ export { LocaleOSAnalytics };
 // Export types
 export * from './types';
 
+// Export errors
+export {
+  LocaleOSError,
+  AuthenticationError,
+  RateLimitError,
+  InvalidInputError,
+  NetworkError,
+  ServerError,
+  ParseError,
+  TimeoutError,
+  AbortError,
+  CircuitOpenError,
+  toResult,
+  toLocaleOSError,
+} from './errors';
+export type { LocaleOSErrorCode, LocaleOSResult } from './errors';
+
+// Export cache adapters
+export {
+  MemoryCache,
+  LocalStorageCache,
+  SessionStorageCache,
+  IndexedDBCache,
+} from './utils/cache';
+
 // Export utilities
-export { generateFingerprint, getPersistentFingerprint } from './utils/fingerprint';
-export { getDeviceInfo, isBrowser, isMobile, isTablet, isDesktop } from './utils/device';
+export {
+  parseIP,
+  isIP,
+  isIPv4,
+  isIPv6,
+  normalizeIP,
+  getIPRange,
+  isPrivateIP,
+  isBogonIP,
+} from './utils/ip';
+export {
+  parseCIDR,
+  isCIDR,
+  isInCIDR,
+  getCIDRInfo,
+  compareIPs,
+  sortIPs,
+  IPSet,
+} from './utils/cidr';
+export {
+  generateFingerprint,
+  generateStableFingerprint,
+  getPersistentFingerprint,
+  getFingerprintConfidence,
+  collectFingerprintComponentsAsync,
+  compareFingerprints,
+  getFingerprintDrift,
+} from './utils/fingerprint';
+export {
+  registerFingerprintCollector,
+  unregisterFingerprintCollector,
+  runFingerprintCollectors,
+} from './utils/collectors';
+export {
+  getDeviceInfo,
+  getDetailedDeviceInfo,
+  detectAutomation,
+  isBrowser,
+  isMobile,
+  isTablet,
+  isDesktop,
+} from './utils/device';
+export { parseUserAgent, isBotUserAgent } from './utils/user-agent';
+export { resolveLocale, getLocaleInfo, getMeasurementSystem, getFirstDayOfWeek } from './utils/locale';
+export { assessRisk } from './utils/risk';
+export { evaluateGeoRules, matchesGeoCondition } from './utils/geo-rules';
+export { isSecretKey, isPublishableKey } from './utils/auth';
 
 // Export specific types for convenience
 export type {
+  FingerprintOptions,
+  FingerprintConfidence,
+  FingerprintComponentScore,
+  FingerprintComparison,
+  UserAgentDevice,
+  LocaleInfo,
+  LocaleFormatters,
+  LocaleOptions,
+  LocaleSource,
+  MeasurementSystem,
+  RiskAssessment,
+  RiskClientSignals,
+  RiskLevel,
+  RiskSignal,
+  RiskSignalCode,
+  LocaleOSEvent,
+  LocaleOSEventType,
+  LocaleOSListener,
+  LocaleOSSnapshot,
+  GeoCondition,
+  GeoPrivacyFlag,
+  GeoRule,
+  GeoRuleInput,
+  AutomationResult,
+  AutomationSignal,
+  BotDetectionOptions,
+  FingerprintCollector,
+  FingerprintCollectorName,
+  FingerprintValue,
+  ConsentMode,
+  ConsentState,
+  IPRangeType,
+  ParsedIP,
+  ParsedCIDR,
+  CIDRInfo,
+  BulkLookupOptions,
+  BulkLookupResult,
+  RequestOptions,
+  RetryConfig,
+  CircuitBreakerConfig,
+  LocaleOSToken,
+  LocaleOSTokenProvider,
+  LocaleOSTokenScope,
+  CacheAdapter,
+  CacheResource,
+  QueueConfig,
+  TrackingEvent,
+  TrackingProperties,
+  TrackingResponse,
   LocationInfo,
   TimezoneInfo,
   CurrencyInfo,
@@ -0,0 +1,453 @@
+import {
+  createContext,
+  createElement,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from 'react';
+import type { ReactNode } from 'react';
+import type {
+  LocaleOSConfig,
+  LocationInfo,
+  ComprehensiveIPData,
+  TimezoneInfo,
+  CurrencyInfo,
+  TrackingProperties,
+  TrackingResponse,
+  LocaleOSSnapshot,
+  RequestOptions,
+} from '@localeos/ip-info';
+// Imported through the package entry, which the build keeps external, so the hooks share the SDK instance
+// (collector registry, namespaces) with the main entry instead of bundling their own copy
+import { LocaleOSAnalytics, LocaleOSError, isBrowser, toLocaleOSError } from '@localeos/ip-info';
+
+/**
+ * Lookup results fetched on the server, used instead of a client round-trip
+ * Only applies to lookups for the visitor's own IP (no `ip` option)
+ */
+export interface LocaleOSInitialData {
+  /**
+   * Location info, e.g. from `getLocationInfo(ip)` on the server client
+   */
+  location?: LocationInfo | null;
+
+  /**
+   * Comprehensive IP data, e.g. from `getComprehensiveData(ip)` on the server client
+   * Also hydrates useTimezone() and useCurrency()
+   */
+  comprehensive?: ComprehensiveIPData | null;
+}
+
+export interface LocaleOSProviderProps {
+  /**
+   * SDK configuration, applied once when the client is initialized; later changes are ignored
+   * For the provider's own client, `errorMode` defaults to 'throw' so lookup errors reach the hooks' `error`
+   */
+  config: LocaleOSConfig;
+
+  /**
+   * Existing client instance (optional)
+   * The provider takes ownership of it and initializes it with `config` as given, without changing `errorMode`
+   * Defaults to a client shared by every provider without one, so a remount never re-initializes it
+   */
+  client?: LocaleOSAnalytics;
+
+  /**
+   * Server-fetched data to hydrate the hooks with
+   */
+  initialData?: LocaleOSInitialData;
+
+  children?: ReactNode;
+}
+
+/**
+ * Options for lookup hooks
+ */
+export interface LocaleOSHookOptions {
+  /**
+   * IP address to look up (optional, defaults to the visitor's IP)
+   */
+  ip?: string;
+
+  /**
+   * Suspend rendering until the data is loaded (optional, defaults to false)
+   * Errors are thrown to the nearest error boundary
+   * Until the provider has mounted (server rendering and hydration), hooks render their loading state
+   * instead of suspending, so the first client render matches the server output; pass `initialData` to avoid it
+   */
+  suspense?: boolean;
+}
+
+/**
+ * State returned by lookup hooks
+ */
+export interface LocaleOSHookResult<T> {
+  data: T | null;
+  error: LocaleOSError | null;
+  loading: boolean;
+}
+
+/**
+ * State returned by useTrack, with the function to track events
+ */
+export interface LocaleOSTrackResult extends LocaleOSHookResult<TrackingResponse> {
+  track: <P extends TrackingProperties = TrackingProperties>(
+    event: string,
+    properties?: P
+  ) => Promise<TrackingResponse>;
+}
+
+/**
+ * Lookup shared by every hook using the same resource and IP
+ */
+interface Resource {
+  status: 'pending' | 'success' | 'error';
+  promise: Promise<void>;
+  data: unknown;
+  error: LocaleOSError | null;
+  controller: AbortController;
+}
+
+/**
+ * Initialization state and lookups of a client
+ * Kept per client instead of in component state, so they survive a provider whose first render suspended
+ */
+interface ClientState {
+  initialized: boolean;
+  resources: Map<string, Resource>;
+  providers: number;
+}
+
+type Fetcher<T> = (client: LocaleOSAnalytics, options: RequestOptions) => Promise<T | null>;
+
+interface LocaleOSContextValue {
+  client: LocaleOSAnalytics;
+  init: () => LocaleOSAnalytics;
+  load: <T>(key: string, fetcher: Fetcher<T>) => Resource;
+  peek: (key: string) => Resource | undefined;
+  discard: (key: string, resource: Resource) => void;
+  isMounted: () => boolean;
+  initialData: LocaleOSInitialData;
+}
+
+const LocaleOSContext = createContext<LocaleOSContextValue | null>(null);
+
+const clientStates = new WeakMap<LocaleOSAnalytics, ClientState>();
+
+let defaultClient: LocaleOSAnalytics | null = null;
+
+/**
+ * Get the state of a client, creating it on first use
+ */
+function getClientState(client: LocaleOSAnalytics): ClientState {
+  let state = clientStates.get(client);
+  if (!state) {
+    state = { initialized: false, resources: new Map(), providers: 0 };
+    clientStates.set(client, state);
+  }
+  return state;
+}
+
+/**
+ * Provide a LocaleOS client to the hooks below it
+ * The client is initialized once, from an effect in the browser, so the provider is safe to render on the server
+ *
+ * @example
+ * <LocaleOSProvider config={{ apiKey: 'your-api-key', analytics: true }}>
+ *   <App />
+ * </LocaleOSProvider>
+ */
+export function LocaleOSProvider({ config, client, initialData, children }: LocaleOSProviderProps) {
+  const [activeClient] = useState(() => client || (defaultClient ||= new LocaleOSAnalytics()));
+  const mounted = useRef(false);
+
+  // Set up once from the first render's props, like the client's configuration
+  const [value] = useState<LocaleOSContextValue>(() => {
+    const state = getClientState(activeClient);
+    const clientConfig = client ? config : { errorMode: 'throw' as const, ...config };
+
+    // Never called while rendering; hooks in child effects, which run before the provider's,
+    // initialize the client on first use
+    const init = () => {
+      if (!state.initialized && isBrowser()) {
+        state.initialized = true;
+        activeClient.init(clientConfig);
+      }
+      return activeClient;
+    };
+
+    // Lookups are cached on the client and start after the current render, so a Suspense render
+    // that is thrown away and retried reuses the same lookup and never initializes the client twice
+    const load = <T>(key: string, fetcher: Fetcher<T>): Resource => {
+      const existing = state.resources.get(key);
+      if (existing && existing.status !== 'error') return existing;
+
+      const controller = new AbortController();
+      const resource: Resource = { status: 'pending', promise: Promise.resolve(), data: null, error: null, controller };
+      resource.promise = Promise.resolve()
+        .then(() => fetcher(init(), { signal: controller.signal }))
+        .then(
+          data => {
+            resource.status = 'success';
+            resource.data = data;
+          },
+          error => {
+            resource.status = 'error';
+            resource.error = toLocaleOSError(error);
+          }
+        );
+      state.resources.set(key, resource);
+      return resource;
+    };
+
+    return {
+      client: activeClient,
+      init,
+      load,
+      peek: key => state.resources.get(key),
+      discard: (key, resource) => {
+        if (state.resources.get(key) === resource) state.resources.delete(key);
+      },
+      isMounted: () => mounted.current,
+      initialData: initialData || {},
+    };
+  });
+
+  useEffect(() => {
+    const state = getClientState(value.client);
+    state.providers++;
+    value.init();
+    mounted.current = true;
+
+    return () => {
+      // Cancel lookups nobody is waiting for anymore; finished ones stay cached on the client
+      if (--state.providers > 0) return;
+      for (const [key, resource] of state.resources) {
+        if (resource.status === 'pending') {
+          resource.controller.abort();
+          state.resources.delete(key);
+        }
+      }
+    };
+  }, [value]);
+
+  return createElement(LocaleOSContext.Provider, { value }, children);
+}
+
+/**
+ * Get the provider's context, failing fast outside a LocaleOSProvider
+ */
+function useLocaleOSContext(): LocaleOSContextValue {
+  const context = useContext(LocaleOSContext);
+  if (!context) {
+    throw new Error('LocaleOS hooks must be used within a LocaleOSProvider');
+  }
+  return context;
+}
+
+/**
+ * Get the LocaleOS client of the nearest provider
+ * The client is initialized before the calling component's effects run; on the server its lookups resolve with null
+ */
+export function useLocaleOS(): LocaleOSAnalytics {
+  const context = useLocaleOSContext();
+
+  useEffect(() => {
+    context.init();
+  }, [context]);
+
+  return context.client;
+}
+
+/**
+ * Subscribe to the client's state: detected IP, location info, consent and the last lookup error
+ * Re-renders whenever the client emits an event, e.g. after clearCache() or a consent change
+ */
+export function useLocaleOSSnapshot(): LocaleOSSnapshot {
+  const client = useLocaleOS();
+  const [snapshot, setSnapshot] = useState(() => client.getSnapshot());
+
+  useEffect(() => {
+    setSnapshot(client.getSnapshot());
+    return client.subscribe(() => setSnapshot(client.getSnapshot()));
+  }, [client]);
+
+  return snapshot;
+}
+
+/**
+ * Convert a settled resource to hook state
+ */
+function toResult<T>(resource: Resource): LocaleOSHookResult<T> {
+  return {
+    data: resource.status === 'success' ? (resource.data as T | null) : null,
+    error: resource.error,
+    loading: resource.status === 'pending',
+  };
+}
+
+/**
+ * Load a lookup once per client, resource and IP, and track its state
+ * Hydrated data is returned as is; on the server, lookups never run and hooks render their loading state,
+ * with Suspense too. Suspense only kicks in once the provider has mounted, so hydration renders the same
+ * loading state as the server
+ */
+function useLookup<T>(
+  key: string,
+  fetcher: Fetcher<T>,
+  initialData: T | null | undefined,
+  options: LocaleOSHookOptions
+): LocaleOSHookResult<T> {
+  const context = useLocaleOSContext();
+  const hydrated = initialData !== undefined && initialData !== null;
+  const [mounted, setMounted] = useState(() => context.isMounted());
+  const suspense = !!options.suspense && !hydrated && mounted;
+
+  const [state, setState] = useState<LocaleOSHookResult<T>>(() => {
+    if (hydrated) return { data: initialData, error: null, loading: false };
+    const resource = context.peek(key);
+    return resource?.status === 'success' ? toResult<T>(resource) : { data: null, error: null, loading: true };
+  });
+
+  // Child effects run before the provider's, so each hook tracks its own first commit
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  useEffect(() => {
+    if (hydrated || suspense) return;
+
+    let active = true;
+    context.init();
+    const resource = context.load(key, fetcher);
+    setState(toResult<T>(resource));
+    resource.promise.then(() => {
+      if (active) setState(toResult<T>(resource));
+    });
+
+    return () => {
+      active = false;
+    };
+    // The key identifies the fetcher, which is recreated on every render
+  }, [context, key, hydrated, suspense]);
+
+  if (hydrated) {
+    return { data: initialData, error: null, loading: false };
+  }
+
+  if (suspense) {
+    const failed = context.peek(key);
+    if (failed?.status === 'error') {
+      // Keep the failure for React's immediate re-render, then drop it so resetting the error boundary retries
+      setTimeout(() => context.discard(key, failed));
+      throw failed.error;
+    }
+
+    const resource = context.load(key, fetcher);
+    if (resource.status === 'pending') throw resource.promise;
+    return toResult<T>(resource);
+  }
+
+  return state;
+}
+
+/**
+ * Get the visitor's location info
+ * @returns Location info with `data`, `error` and `loading` state
+ */
+export function useLocation(options: Omit<LocaleOSHookOptions, 'ip'> = {}): LocaleOSHookResult<LocationInfo> {
+  const { initialData } = useLocaleOSContext();
+  return useLookup('location', (client, request) => client.getLocationInfo(request), initialData.location, options);
+}
+
+/**
+ * Get comprehensive IP data
+ * @returns Comprehensive IP data with `data`, `error` and `loading` state
+ */
+export function useComprehensiveData(options: LocaleOSHookOptions = {}): LocaleOSHookResult<ComprehensiveIPData> {
+  const { initialData } = useLocaleOSContext();
+  return useLookup(
+    `comprehensive:${options.ip || ''}`,
+    (client, request) => client.getComprehensiveData(options.ip, request),
+    options.ip ? undefined : initialData.comprehensive,
+    options
+  );
+}
+
+/**
+ * Get timezone information
+ * @returns Timezone info with `data`, `error` and `loading` state
+ */
+export function useTimezone(options: LocaleOSHookOptions = {}): LocaleOSHookResult<TimezoneInfo> {
+  const { initialData } = useLocaleOSContext();
+  return useLookup(
+    `time_zone:${options.ip || ''}`,
+    (client, request) => client.getTimezone(options.ip, request),
+    options.ip ? undefined : initialData.comprehensive?.time_zone,
+    options
+  );
+}
+
+/**
+ * Get currency information
+ * @returns Currency info with `data`, `error` and `loading` state
+ */
+export function useCurrency(options: LocaleOSHookOptions = {}): LocaleOSHookResult<CurrencyInfo> {
+  const { initialData } = useLocaleOSContext();
+  return useLookup(
+    `currency:${options.ip || ''}`,
+    (client, request) => client.getCurrency(options.ip, request),
+    options.ip ? undefined : initialData.comprehensive?.currency,
+    options
+  );
+}
+
+/**
+ * Track custom events
+ * @returns `track` function with the state of the last tracked event
+ *
+ * @example
+ * const { track, loading } = useTrack();
+ * <button disabled={loading} onClick={() => track('signup', { plan: 'pro' })}>Sign up</button>
+ */
+export function useTrack(): LocaleOSTrackResult {
+  const context = useLocaleOSContext();
+  const mountedRef = useRef(false);
+  const [state, setState] = useState<LocaleOSHookResult<TrackingResponse>>({
+    data: null,
+    error: null,
+    loading: false,
+  });
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  const track = useCallback(
+    async <P extends TrackingProperties = TrackingProperties>(event: string, properties?: P) => {
+      // Skip state updates once the component has unmounted, e.g. when tracking a navigation
+      const update = (next: LocaleOSHookResult<TrackingResponse>) => {
+        if (mountedRef.current) setState(next);
+      };
+
+      setState(current => ({ ...current, error: null, loading: true }));
+      try {
+        const response = await context.init().track(event, properties);
+        update({ data: response, error: null, loading: false });
+        return response;
+      } catch (error) {
+        const localeOSError = toLocaleOSError(error);
+        update({ data: null, error: localeOSError, loading: false });
+        throw localeOSError;
+      }
+    },
+    [context]
+  );
+
+  return { ...state, track };
+}
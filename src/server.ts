@@ -0,0 +1,470 @@
+import type {
+  LocaleOSServerConfig,
+  LocationInfo,
+  TimezoneInfo,
+  CurrencyInfo,
+  ASNInfo,
+  CompanyInfo,
+  ComprehensiveIPData,
+  IPDataResource,
+  CacheAdapter,
+  CacheResource,
+  BulkLookupOptions,
+  BulkLookupResult,
+  RiskAssessment,
+  RiskClientSignals,
+  GeoRule,
+  RequestOptions,
+  LocaleOSToken,
+  CreateTokenOptions,
+} from './types';
+import { isBrowser } from './utils/device';
+import type { IPLookupResponse } from './utils/location';
+import { mapLocationResponse } from './utils/location';
+import { HttpClient } from './utils/http';
+import { Credentials, isPublishableKey } from './utils/auth';
+import { InFlightRequests } from './utils/inflight';
+import { runBulkLookup } from './utils/bulk';
+import { assertValidIP } from './utils/ip';
+import { getCacheKey } from './utils/cache';
+import { assessRisk } from './utils/risk';
+import { evaluateGeoRules } from './utils/geo-rules';
+import { LocaleOSError, AbortError, InvalidInputError, toLocaleOSError } from './errors';
+
+const DEFAULT_TOKEN_TTL = 15 * 60;
+const DEFAULT_TOKEN_SCOPES: CreateTokenOptions['scopes'] = ['lookup', 'track'];
+
+/**
+ * Server-side LocaleOS client for Node.js, edge runtimes and workers
+ * Lookups take an explicit IP address and never touch the DOM
+ */
+class LocaleOSServer {
+  private apiKey: string;
+  private apiUrl: string;
+  private http: HttpClient;
+  private errorMode: 'silent' | 'throw';
+  private inFlight = new InFlightRequests();
+  private cache: CacheAdapter | null;
+  private cacheDuration: number;
+
+  constructor(config: LocaleOSServerConfig) {
+    if (!config.apiKey) {
+      throw new Error('API key is required to create a LocaleOS server client');
+    }
+
+    if (isBrowser()) {
+      console.warn('[LocaleOS] The server client uses your secret API key and should not run in the browser');
+    }
+
+    const fetchFn = config.fetch || (typeof fetch !== 'undefined' ? fetch : undefined);
+    if (!fetchFn) {
+      throw new Error('No fetch implementation available; pass one via the `fetch` option');
+    }
+
+    this.apiKey = config.apiKey;
+    this.apiUrl = config.apiUrl || 'https://localeos.co';
+    this.errorMode = config.errorMode || 'silent';
+    this.cache = config.cache || null;
+    this.cacheDuration = config.cacheDuration ?? 24 * 60 * 60 * 1000;
+    // Bind to globalThis so runtimes that require an unbound fetch (e.g. Cloudflare Workers) work
+    this.http = new HttpClient((input, init) => fetchFn.call(globalThis, input, init), config);
+    this.http.authenticate(new Credentials({ apiKey: config.apiKey }));
+  }
+
+  /**
+   * Get location information for an IP address
+   * @param ip - IP address to look up
+   * @param options - Signal and timeout for this call (optional)
+   * @returns Country, city, timezone, currency and server-side device information
+   */
+  public async getLocationInfo(ip: string, options?: RequestOptions): Promise<LocationInfo | null> {
+    try {
+      ip = assertValidIP(ip);
+      const cached = await this.getFromCache<LocationInfo>('location', ip);
+      if (cached) return cached;
+
+      const url = `${this.apiUrl}/api/ip-lookup?ip=${encodeURIComponent(ip)}`;
+      const locationData = await this.inFlight.run(
+        `ip-lookup:${ip}`,
+        shared => this.http.request<IPLookupResponse>(url, {}, { signal: shared, timeout: options?.timeout }),
+        options?.signal
+      );
+
+      if (locationData.status !== 'success') {
+        throw new LocaleOSError(locationData.message || 'IP lookup failed');
+      }
+
+      const location = mapLocationResponse(ip, locationData);
+      await this.saveToCache('location', ip, location);
+      return location;
+    } catch (error) {
+      return this.handleError(error, 'Error fetching location info');
+    }
+  }
+
+  /**
+   * Get comprehensive IP data in ipdata.co format
+   * @param ip - IP address to look up
+   * @param options - Signal and timeout for this call (optional)
+   * @returns Complete IP intelligence data
+   */
+  public async getComprehensiveData(ip: string, options?: RequestOptions): Promise<ComprehensiveIPData | null> {
+    try {
+      return await this.fetchIPData<ComprehensiveIPData>(ip, undefined, options);
+    } catch (error) {
+      return this.handleError(error, 'Error fetching comprehensive IP data');
+    }
+  }
+
+  /**
+   * Look up many IP addresses at once
+   * Input is validated and deduplicated, cached entries are served first, and the rest
+   * are fetched in batches with bounded concurrency
+   * @param ips - IP addresses to look up
+   * @param options - Batch size, concurrency, signal and timeout
+   * @returns Map of IP address to its comprehensive data or a per-IP error
+   */
+  public async getBulkData(ips: string[], options?: BulkLookupOptions): Promise<BulkLookupResult | null> {
+    try {
+      return await runBulkLookup(
+        ips,
+        {
+          getCached: ip => this.getFromCache<ComprehensiveIPData>('comprehensive', ip),
+          fetchBatch: batch =>
+            this.http.request<ComprehensiveIPData[]>(
+              `${this.apiUrl}/api/ipdata/bulk`,
+              {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(batch),
+              },
+              { signal: options?.signal, timeout: options?.timeout }
+            ),
+          saveToCache: (ip, data) => this.saveToCache('comprehensive', ip, data),
+        },
+        options
+      );
+    } catch (error) {
+      return this.handleError(error, 'Error fetching bulk IP data');
+    }
+  }
+
+  /**
+   * Get timezone information for an IP address
+   * @param ip - IP address to look up
+   * @param options - Signal and timeout for this call (optional)
+   * @returns Timezone details including abbreviation, offset, and DST status
+   */
+  public async getTimezone(ip: string, options?: RequestOptions): Promise<TimezoneInfo | null> {
+    try {
+      return await this.fetchIPData<TimezoneInfo>(ip, 'time_zone', options);
+    } catch (error) {
+      return this.handleError(error, 'Error fetching timezone info');
+    }
+  }
+
+  /**
+   * Get currency information for an IP address
+   * @param ip - IP address to look up
+   * @param options - Signal and timeout for this call (optional)
+   * @returns Currency details including code, symbol, and name
+   */
+  public async getCurrency(ip: string, options?: RequestOptions): Promise<CurrencyInfo | null> {
+    try {
+      return await this.fetchIPData<CurrencyInfo>(ip, 'currency', options);
+    } catch (error) {
+      return this.handleError(error, 'Error fetching currency info');
+    }
+  }
+
+  /**
+   * Get ASN (Autonomous System Number) information for an IP address
+   * @param ip - IP address to look up
+   * @param options - Signal and timeout for this call (optional)
+   * @returns ASN details including organization name, domain, and route
+   */
+  public async getASN(ip: string, options?: RequestOptions): Promise<ASNInfo | null> {
+    try {
+      return await this.fetchIPData<ASNInfo>(ip, 'asn', options);
+    } catch (error) {
+      return this.handleError(error, 'Error fetching ASN info');
+    }
+  }
+
+  /**
+   * Get company information for an IP address
+   * @param ip - IP address to look up
+   * @param options - Signal and timeout for this call (optional)
+   * @returns Company details including name, domain, and network
+   */
+  public async getCompany(ip: string, options?: RequestOptions): Promise<CompanyInfo | null> {
+    try {
+      return await this.fetchIPData<CompanyInfo>(ip, 'company', options);
+    } catch (error) {
+      return this.handleError(error, 'Error fetching company info');
+    }
+  }
+
+  /**
+   * Assess the risk of a request for fraud checks (e.g. at signup or checkout)
+   * Pass browser signals collected on the client, such as the timezone, and the
+   * Accept-Language languages, to have them cross-checked with the IP location
+   * @param ip - IP address to assess
+   * @param client - Optional browser signals
+   * @param options - Signal and timeout for this call (optional)
+   * @returns Score, level, verdict and the signals that contributed
+   */
+  public async getRiskAssessment(
+    ip: string,
+    client?: RiskClientSignals,
+    options?: RequestOptions
+  ): Promise<RiskAssessment | null> {
+    try {
+      const data = await this.fetchIPData<ComprehensiveIPData>(ip, undefined, options);
+      return assessRisk(data, client);
+    } catch (error) {
+      return this.handleError(error, 'Error assessing risk');
+    }
+  }
+
+  /**
+   * Pick a variant for a request from declarative geo rules
+   * Rules are checked in order and the first match wins; add `when: {}` last as the default
+   * @param rules - Rules over country, continent, EU, region, ASN, CIDR, privacy flags and device type
+   * @param ip - IP address to evaluate
+   * @param options - Signal and timeout for this call (optional)
+   * @returns The matching variant, or null if no rule matches
+   */
+  public async getGeoVariant<V>(rules: GeoRule<V>[], ip: string, options?: RequestOptions): Promise<V | null> {
+    try {
+      const data = await this.fetchIPData<ComprehensiveIPData>(ip, undefined, options);
+      return evaluateGeoRules(rules, data);
+    } catch (error) {
+      return this.handleError(error, 'Error evaluating geo rules');
+    }
+  }
+
+  /**
+   * Mint a short-lived token for a browser client
+   * Serve it from your own endpoint and pass that to the browser client's `getToken` option
+   * @param options - Token lifetime and scopes (optional)
+   * @returns The token with its expiry
+   *
+   * @example
+   * app.get('/api/localeos-token', async (req, res) => {
+   *   res.json(await localeOS.createToken({ ttl: 900, scopes: ['lookup'] }));
+   * });
+   */
+  public async createToken(options: CreateTokenOptions = {}): Promise<LocaleOSToken | null> {
+    try {
+      if (isPublishableKey(this.apiKey)) {
+        throw new InvalidInputError('Tokens can only be created with a secret API key');
+      }
+
+      return await this.http.request<LocaleOSToken>(`${this.apiUrl}/api/tokens`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ttl: options.ttl ?? DEFAULT_TOKEN_TTL,
+          scopes: options.scopes || DEFAULT_TOKEN_SCOPES,
+        }),
+      });
+    } catch (error) {
+      return this.handleError(error, 'Error creating token');
+    }
+  }
+
+  /**
+   * Fetch an `/api/ipdata` resource for an IP address
+   * Results are cached per IP and resource type when a cache adapter is configured
+   * Concurrent requests for the same resource share one network call
+   * @private
+   */
+  private async fetchIPData<T>(ip: string, resource?: IPDataResource, options?: RequestOptions): Promise<T> {
+    ip = assertValidIP(ip);
+    const cached = await this.getFromCache<T>(resource || 'comprehensive', ip);
+    if (cached) return cached;
+
+    if (resource) {
+      const comprehensive = await this.getFromCache<ComprehensiveIPData>('comprehensive', ip);
+      if (comprehensive && comprehensive[resource] !== undefined) {
+        return comprehensive[resource] as T;
+      }
+    }
+
+    const path = resource ? `${ip}/${resource}` : ip;
+    const url = `${this.apiUrl}/api/ipdata/${encodeURIComponent(ip)}${resource ? `/${resource}` : ''}`;
+    const data = await this.inFlight.run(
+      `ipdata:${path}`,
+      shared => this.http.request<T>(url, {}, { signal: shared, timeout: options?.timeout }),
+      options?.signal
+    );
+    await this.saveToCache(resource || 'comprehensive', ip, data);
+
+    return data;
+  }
+
+  /**
+   * Save a lookup result to the cache adapter, if one is configured
+   * @private
+   */
+  private async saveToCache<T>(resource: CacheResource, ip: string, data: T): Promise<void> {
+    if (!this.cache || this.cacheDuration <= 0) return;
+
+    try {
+      await this.cache.set(getCacheKey(resource, ip), data, this.cacheDuration);
+    } catch (error) {
+      console.warn('[LocaleOS] Failed to save cache:', error);
+    }
+  }
+
+  /**
+   * Get a lookup result from the cache adapter, if one is configured
+   * @private
+   */
+  private async getFromCache<T>(resource: CacheResource, ip: string): Promise<T | null> {
+    if (!this.cache || this.cacheDuration <= 0) return null;
+
+    try {
+      return await this.cache.get<T>(getCacheKey(resource, ip));
+    } catch (error) {
+      console.warn('[LocaleOS] Failed to read cache:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Handle a failed lookup according to the configured error mode
+   * Throws a LocaleOSError in 'throw' mode, otherwise logs it and returns null
+   * @private
+   */
+  private handleError(error: unknown, message: string): null {
+    const localeOSError = toLocaleOSError(error);
+
+    if (this.errorMode === 'throw') {
+      throw localeOSError;
+    }
+
+    // Cancelled calls are expected, so they are not logged
+    if (!(localeOSError instanceof AbortError)) {
+      console.error(`[LocaleOS] ${message}:`, localeOSError);
+    }
+    return null;
+  }
+}
+
+/**
+ * Create a server-side LocaleOS client
+ */
+export function createServerClient(config: LocaleOSServerConfig): LocaleOSServer {
+  return new LocaleOSServer(config);
+}
+
+// Export class for advanced usage
+export { LocaleOSServer };
+
+// Export errors
+export {
+  LocaleOSError,
+  AuthenticationError,
+  RateLimitError,
+  InvalidInputError,
+  NetworkError,
+  ServerError,
+  ParseError,
+  TimeoutError,
+  AbortError,
+  CircuitOpenError,
+  toResult,
+} from './errors';
+export type { LocaleOSErrorCode, LocaleOSResult } from './errors';
+
+// Export cache adapters
+export { MemoryCache } from './utils/cache';
+
+// Export IP utilities
+export {
+  parseIP,
+  isIP,
+  isIPv4,
+  isIPv6,
+  normalizeIP,
+  getIPRange,
+  isPrivateIP,
+  isBogonIP,
+} from './utils/ip';
+export {
+  parseCIDR,
+  isCIDR,
+  isInCIDR,
+  getCIDRInfo,
+  compareIPs,
+  sortIPs,
+  IPSet,
+} from './utils/cidr';
+
+// Export User-Agent parser
+export { parseUserAgent, isBotUserAgent } from './utils/user-agent';
+
+// Export locale helpers
+export { resolveLocale, getLocaleInfo, getMeasurementSystem, getFirstDayOfWeek } from './utils/locale';
+
+// Export risk assessment
+export { assessRisk } from './utils/risk';
+
+// Export geo rule engine
+export { evaluateGeoRules, matchesGeoCondition } from './utils/geo-rules';
+
+// Export API key helpers
+export { isSecretKey, isPublishableKey } from './utils/auth';
+
+// Export request IP helpers
+export {
+  getClientIP,
+  createExpressHandler,
+  createFetchHandler,
+  createNextHandler,
+} from './utils/request-ip';
+
+// Export types
+export type {
+  LocaleOSServerConfig,
+  BulkLookupOptions,
+  RequestOptions,
+  RetryConfig,
+  CircuitBreakerConfig,
+  CreateTokenOptions,
+  LocaleOSToken,
+  LocaleOSTokenScope,
+  BulkLookupResult,
+  CacheAdapter,
+  CacheResource,
+  ClientIPOptions,
+  IPRangeType,
+  ParsedIP,
+  ParsedCIDR,
+  CIDRInfo,
+  RequestLike,
+  RequestHeadersLike,
+  LocationInfo,
+  TimezoneInfo,
+  CurrencyInfo,
+  ASNInfo,
+  CompanyInfo,
+  ComprehensiveIPData,
+  UserAgentDevice,
+  LocaleInfo,
+  LocaleFormatters,
+  LocaleOptions,
+  LocaleSource,
+  MeasurementSystem,
+  RiskAssessment,
+  RiskClientSignals,
+  RiskLevel,
+  RiskSignal,
+  RiskSignalCode,
+  GeoCondition,
+  GeoPrivacyFlag,
+  GeoRule,
+  GeoRuleInput,
+} from './types';
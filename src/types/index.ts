@@ -1,13 +1,22 @@
+import type { LocaleOSError, LocaleOSResult } from '../errors';
+
 /**
  * Configuration options for initializing LocaleOS Analytics
  */
 export interface LocaleOSConfig {
   /**
-   * Your secret API key from LocaleOS dashboard
-   * IMPORTANT: Keep this key secret and never expose it in client-side code
-   * Use environment variables to store this key securely
+   * Your publishable API key from LocaleOS dashboard (`leos_pk_...`)
+   * Publishable keys are safe to ship in client-side code; secret keys (`leos_sk_...`) are rejected
+   * Either `apiKey` or `getToken` is required
    */
-  apiKey: string;
+  apiKey?: string;
+
+  /**
+   * Get a short-lived token minted by your backend (optional, instead of `apiKey`)
+   * Called before the first request, again shortly before the token expires,
+   * and when the API rejects the token
+   */
+  getToken?: LocaleOSTokenProvider;
 
   /**
    * Enable/disable analytics tracking (optional, defaults to false)
@@ -38,16 +47,377 @@ export interface LocaleOSConfig {
    * Note: Requires adding the API URL to your CSP connect-src directive
    */
   apiUrl?: string;
+
+  /**
+   * Storage namespace for this client (optional)
+   * Scopes the fingerprint, consent, event queue and lookup cache keys in localStorage,
+   * so several clients with different API keys can run on the same page
+   * Letters, digits and hyphens only, e.g. 'checkout' or 'tenant-42'
+   */
+  namespace?: string;
+
+  /**
+   * Queue tracked events and send them in batches (optional, defaults to false)
+   * Queued events are persisted in localStorage, retried with exponential backoff
+   * and flushed with navigator.sendBeacon when the page is hidden or unloaded
+   * Pass `true` for the defaults or an object to tune the queue
+   */
+  queue?: boolean | QueueConfig;
+
+  /**
+   * How failed lookups are reported (optional, defaults to 'silent')
+   * 'silent' logs the error and resolves with null
+   * 'throw' rejects with a typed LocaleOSError (AuthenticationError, RateLimitError, ...)
+   * Combine 'throw' with `toResult()` to get a discriminated result instead
+   */
+  errorMode?: 'silent' | 'throw';
+
+  /**
+   * Timeout for each API request attempt in milliseconds (optional, defaults to 10 seconds)
+   * Timed out attempts are retried like network errors
+   * Set to 0 to wait indefinitely
+   */
+  timeout?: number;
+
+  /**
+   * Retry failed API requests with jittered exponential backoff (optional, enabled by default)
+   * Retry-After headers on 429 responses are honoured; set to false to disable retries
+   */
+  retry?: boolean | RetryConfig;
+
+  /**
+   * Stop calling the API for a while after repeated failures (optional, enabled by default)
+   * Set to false to disable the circuit breaker
+   */
+  circuitBreaker?: boolean | CircuitBreakerConfig;
+
+  /**
+   * How long the detected IP address is reused, in milliseconds (optional, defaults to 1 minute)
+   * Concurrent lookups always share a single IP detection request
+   * Set to 0 to detect the IP on every call
+   */
+  ipCacheDuration?: number;
+
+  /**
+   * Storage backend for cached lookups (optional, defaults to localStorage)
+   * Entries are keyed per IP and resource type, so lookups for any IP are cached
+   * Built-in adapters: MemoryCache, LocalStorageCache, SessionStorageCache, IndexedDBCache
+   */
+  cache?: CacheAdapter;
+
+  /**
+   * Initial consent for tracking, fingerprinting and storage (optional, defaults to 'granted')
+   * 'granted' - everything is enabled until the visitor withdraws consent
+   * 'pending' - nothing is fingerprinted, tracked or stored until `setConsent()` grants it
+   * 'auto' - enabled for visitors outside the EU; EU visitors stay pending until `setConsent()`
+   * A choice made with `setConsent()` is remembered and takes precedence on later visits
+   */
+  consent?: ConsentMode;
+
+  /**
+   * Treat Global Privacy Control and Do Not Track as a refusal of analytics and fingerprinting
+   * until the visitor explicitly grants consent (optional, defaults to true)
+   */
+  respectPrivacySignals?: boolean;
+
+  /**
+   * Fingerprint generation options (optional)
+   */
+  fingerprint?: FingerprintOptions;
+
+  /**
+   * Skip analytics tracking for likely bots and headless browsers (optional, defaults to true)
+   * Pass an object to change the detection threshold
+   */
+  botDetection?: boolean | BotDetectionOptions;
+}
+
+/**
+ * Initial consent mode
+ */
+export type ConsentMode = 'granted' | 'pending' | 'auto';
+
+/**
+ * Visitor consent for each kind of processing
+ */
+export interface ConsentState {
+  /**
+   * Send visit and event tracking
+   */
+  analytics: boolean;
+
+  /**
+   * Generate a system fingerprint
+   */
+  fingerprinting: boolean;
+
+  /**
+   * Store the fingerprint, cached lookups and queued events in the browser
+   * Without it, lookups are cached in memory only
+   */
+  storage: boolean;
+}
+
+/**
+ * Storage backend for cached lookups
+ * Implement this interface to plug in your own store (e.g. Redis on the server)
+ * Methods may be synchronous or return promises
+ */
+export interface CacheAdapter {
+  /**
+   * Get a cached value, or null if it is missing or expired
+   */
+  get<T>(key: string): T | null | Promise<T | null>;
+
+  /**
+   * Store a value for `ttl` milliseconds (0 never expires)
+   */
+  set<T>(key: string, value: T, ttl: number): void | Promise<void>;
+
+  /**
+   * Remove a cached value
+   */
+  delete(key: string): void | Promise<void>;
+
+  /**
+   * Remove all cached values
+   */
+  clear(): void | Promise<void>;
+}
+
+/**
+ * Resource types stored in the cache, keyed as `<resource>:<ip>`
+ */
+export type CacheResource = 'location' | 'comprehensive' | IPDataResource;
+
+/**
+ * Options for the batched event queue
+ */
+export interface QueueConfig {
+  /**
+   * Number of events sent per batch; reaching it triggers a flush (defaults to 10)
+   */
+  batchSize?: number;
+
+  /**
+   * Interval in milliseconds between automatic flushes (defaults to 5 seconds)
+   */
+  flushInterval?: number;
+
+  /**
+   * Attempts before a failing event is dropped (defaults to 5)
+   */
+  maxRetries?: number;
+
+  /**
+   * Maximum number of events kept in the queue; the oldest are dropped first (defaults to 100)
+   */
+  maxQueueSize?: number;
+}
+
+/**
+ * Event waiting in the queue to be sent
+ */
+export interface QueuedEvent {
+  /**
+   * Unique ID of the queued event
+   */
+  id: string;
+
+  /**
+   * Event payload
+   */
+  event: TrackingEvent;
+
+  /**
+   * Number of failed send attempts
+   */
+  attempts: number;
+}
+
+/**
+ * Custom properties attached to a tracked event
+ */
+export type TrackingProperties = Record<string, string | number | boolean | null | undefined>;
+
+/**
+ * Configuration options for the server-side LocaleOS client
+ */
+export interface LocaleOSServerConfig {
+  /**
+   * Your secret API key from LocaleOS dashboard (`leos_sk_...`)
+   * Read it from an environment variable on the server; it is never sent to the browser
+   */
+  apiKey: string;
+
+  /**
+   * Custom API URL for LocaleOS API (optional)
+   * Default: 'https://localeos.co'
+   */
+  apiUrl?: string;
+
+  /**
+   * Custom fetch implementation (optional)
+   * Defaults to the global fetch; pass one for runtimes without it or to add instrumentation
+   */
+  fetch?: typeof fetch;
+
+  /**
+   * How failed lookups are reported (optional, defaults to 'silent')
+   * 'silent' logs the error and resolves with null
+   * 'throw' rejects with a typed LocaleOSError
+   */
+  errorMode?: 'silent' | 'throw';
+
+  /**
+   * Timeout for each API request attempt in milliseconds (optional, defaults to 10 seconds)
+   * Timed out attempts are retried like network errors
+   * Set to 0 to wait indefinitely
+   */
+  timeout?: number;
+
+  /**
+   * Retry failed API requests with jittered exponential backoff (optional, enabled by default)
+   * Retry-After headers on 429 responses are honoured; set to false to disable retries
+   */
+  retry?: boolean | RetryConfig;
+
+  /**
+   * Stop calling the API for a while after repeated failures (optional, enabled by default)
+   * Set to false to disable the circuit breaker
+   */
+  circuitBreaker?: boolean | CircuitBreakerConfig;
+
+  /**
+   * Storage backend for cached lookups (optional, caching is disabled without one)
+   * Use MemoryCache for a per-process cache or implement CacheAdapter for a shared store
+   */
+  cache?: CacheAdapter;
+
+  /**
+   * Cache duration in milliseconds (optional, defaults to 24 hours)
+   * Only applies when a cache adapter is configured
+   */
+  cacheDuration?: number;
+}
+
+/**
+ * Short-lived token for browser clients, minted on your backend with `createToken()`
+ */
+export interface LocaleOSToken {
+  /**
+   * Token sent as a bearer token in the Authorization header
+   */
+  token: string;
+
+  /**
+   * Expiry as a timestamp in milliseconds or an ISO 8601 date (optional)
+   * Without it, the token is only refreshed once the API rejects it
+   */
+  expiresAt?: number | string;
+}
+
+/**
+ * Callback returning a token, or just the token string
+ */
+export type LocaleOSTokenProvider = () => Promise<string | LocaleOSToken>;
+
+/**
+ * API access a token is limited to
+ */
+export type LocaleOSTokenScope = 'lookup' | 'bulk' | 'track';
+
+/**
+ * Options for minting a token with the server client
+ */
+export interface CreateTokenOptions {
+  /**
+   * Token lifetime in seconds (optional, defaults to 15 minutes)
+   */
+  ttl?: number;
+
+  /**
+   * API access granted to the token (optional, defaults to lookups and tracking)
+   */
+  scopes?: LocaleOSTokenScope[];
+}
+
+/**
+ * Options for extracting the client IP from an incoming request
+ */
+export interface ClientIPOptions {
+  /**
+   * Header holding the client IP, set by your platform or edge proxy (optional)
+   * e.g. 'cf-connecting-ip' on Cloudflare or 'x-real-ip' on Vercel and behind nginx
+   * Only set this when every request passes through that proxy, since clients can send the header too
+   * With `trustedProxies`, the header is only read for requests from a trusted proxy
+   */
+  ipHeader?: string;
+
+  /**
+   * IP addresses or CIDR blocks of proxies and load balancers you control (optional)
+   * Forwarded and X-Forwarded-For are only read for requests from a trusted proxy,
+   * and the client IP is the right-most address in the chain that is not a trusted proxy
+   * When omitted, forwarding headers are ignored and the socket address is used
+   */
+  trustedProxies?: string[];
+}
+
+/**
+ * Headers of an incoming request, either a Fetch API Headers object or a Node.js header map
+ */
+export type RequestHeadersLike = Headers | Record<string, string | string[] | undefined>;
+
+/**
+ * Minimal shape of an incoming request (Node.js, Express or Fetch API)
+ */
+export interface RequestLike {
+  headers: RequestHeadersLike;
+
+  /**
+   * Underlying socket (Node.js and Express)
+   */
+  socket?: { remoteAddress?: string };
+
+  /**
+   * Remote address exposed by some frameworks (e.g. Next.js)
+   */
+  ip?: string;
 }
 
 /**
  * Event data for tracking
  */
-export interface TrackingEvent {
+export interface TrackingEvent<P extends TrackingProperties = TrackingProperties> {
   /**
    * Event name (e.g., 'page_view', 'button_click')
    */
   event?: string;
+
+  /**
+   * Custom event properties
+   */
+  properties?: P;
+
+  /**
+   * Time the event occurred (ISO 8601 format)
+   */
+  timestamp?: string;
+
+  /**
+   * Page URL where the event occurred
+   */
+  url?: string;
+
+  /**
+   * Referrer of the current page
+   */
+  referrer?: string;
+
+  /**
+   * System fingerprint of the visitor
+   */
+  fingerprint?: string | null;
 }
 
 /**
@@ -69,6 +439,51 @@ export interface DeviceInfo {
    */
   device: string;
 
+  /**
+   * Browser name without version, e.g. "Chrome", "Samsung Internet" (null if unknown)
+   */
+  browserName?: string | null;
+
+  /**
+   * Full browser version (null if unknown)
+   */
+  browserVersion?: string | null;
+
+  /**
+   * Rendering engine: Blink, WebKit, Gecko, EdgeHTML, Trident or Presto (null if unknown)
+   */
+  engine?: string | null;
+
+  /**
+   * Rendering engine version (null if unknown)
+   */
+  engineVersion?: string | null;
+
+  /**
+   * Operating system name without version, e.g. "Windows", "iPadOS" (null if unknown)
+   */
+  osName?: string | null;
+
+  /**
+   * Operating system version (null if unknown)
+   */
+  osVersion?: string | null;
+
+  /**
+   * CPU architecture: x86, x86_64, arm or arm64 (null if unknown)
+   */
+  architecture?: string | null;
+
+  /**
+   * Device model, e.g. "iPhone" or "SM-S918B" (null if unknown)
+   */
+  model?: string | null;
+
+  /**
+   * Whether the page runs in an embedded webview or in-app browser
+   */
+  webview?: boolean;
+
   /**
    * Screen resolution
    */
@@ -94,6 +509,66 @@ export interface DeviceInfo {
   cores?: number;
 }
 
+/**
+ * Device details parsed from a User-Agent string
+ * Returned by the API in `device` and by parseUserAgent
+ */
+export interface UserAgentDevice {
+  /**
+   * Human-readable device name, e.g. "Apple iPhone", "Samsung SM-S918B" or "Windows Desktop"
+   */
+  name: string;
+
+  /**
+   * Device type: desktop, mobile, tablet or bot
+   */
+  type: string | null;
+
+  /**
+   * Device manufacturer, e.g. "Apple", "Samsung"
+   */
+  brand: string | null;
+
+  /**
+   * Device model, e.g. "iPhone", "SM-S918B"
+   */
+  model: string | null;
+
+  /**
+   * Operating system name
+   */
+  os: string | null;
+
+  /**
+   * Operating system version
+   */
+  os_version: string | null;
+
+  /**
+   * Browser name
+   */
+  browser: string | null;
+
+  /**
+   * Browser version
+   */
+  browser_version: string | null;
+
+  is_mobile: boolean;
+  is_tablet: boolean;
+  is_desktop: boolean;
+
+  /**
+   * Whether the User-Agent belongs to a crawler, headless browser or HTTP client
+   */
+  is_bot: boolean;
+
+  /**
+   * The parsed User-Agent string
+   */
+  user_agent: string | null;
+}
+
 /**
  * Location information from IP address
  */
@@ -165,24 +640,54 @@ export interface LocationInfo {
     /**
      * Server-side device info from IP lookup
      */
-    server?: {
-      name: string;
-      type: string | null;
-      brand: string | null;
-      model: string | null;
-      os: string | null;
-      os_version: string | null;
-      browser: string | null;
-      browser_version: string | null;
-      is_mobile: boolean;
-      is_tablet: boolean;
-      is_desktop: boolean;
-      is_bot: boolean;
-      user_agent: string | null;
-    };
+    server?: UserAgentDevice;
   };
 }
 
+/**
+ * Signal that suggests an automated browser
+ */
+export type AutomationSignal =
+  | 'webdriver'
+  | 'headless_user_agent'
+  | 'crawler_user_agent'
+  | 'automation_globals'
+  | 'no_languages'
+  | 'no_plugins'
+  | 'missing_chrome_object'
+  | 'platform_mismatch'
+  | 'zero_window_size';
+
+/**
+ * Result of client-side bot and headless browser detection
+ */
+export interface AutomationResult {
+  /**
+   * Whether the score reached the detection threshold
+   */
+  isBot: boolean;
+
+  /**
+   * Likelihood that the browser is automated (0-1)
+   */
+  score: number;
+
+  /**
+   * Signals that contributed to the score
+   */
+  reasons: AutomationSignal[];
+}
+
+/**
+ * Options for bot detection during init()
+ */
+export interface BotDetectionOptions {
+  /**
+   * Score from which a visitor is treated as a bot (optional, defaults to 0.5)
+   */
+  threshold?: number;
+}
+
 /**
  * Fingerprint components used to generate unique system ID
  */
@@ -203,6 +708,170 @@ export interface FingerprintComponents {
   plugins: string;
   canvas?: string;
   webgl?: string;
+
+  /**
+   * Signals from enabled fingerprint collectors, keyed by collector name
+   * Collectors that failed or timed out are null
+   */
+  extended?: Record<string, FingerprintValue>;
+}
+
+/**
+ * Value produced by a fingerprint collector
+ */
+export type FingerprintValue = string | number | boolean | null;
+
+/**
+ * Names of the built-in fingerprint collectors
+ */
+export type FingerprintCollectorName =
+  | 'audio'
+  | 'fonts'
+  | 'webglParameters'
+  | 'mediaDevices'
+  | 'touch'
+  | 'mediaQueries'
+  | 'math'
+  | 'intl';
+
+/**
+ * Source of an additional fingerprint signal
+ */
+export interface FingerprintCollector {
+  /**
+   * Unique collector name, used as the key in `FingerprintComponents.extended`
+   */
+  name: string;
+
+  /**
+   * Read the signal; may be async and may throw (the signal is then null)
+   */
+  collect: () => FingerprintValue | Promise<FingerprintValue>;
+
+  /**
+   * Whether the collector runs when it is not listed in `FingerprintOptions.collectors`
+   * (optional, defaults to true; the built-in collectors default to false)
+   */
+  enabled?: boolean;
+
+  /**
+   * Estimated identifying information in bits, used by getFingerprintConfidence (optional, defaults to 1)
+   */
+  entropy?: number;
+
+  /**
+   * Estimated probability that the signal is unchanged after a few months (optional, defaults to 0.9)
+   */
+  stability?: number;
+}
+
+/**
+ * Options for generating the system fingerprint
+ */
+export interface FingerprintOptions {
+  /**
+   * Produce the same ID from the same components (optional, defaults to false)
+   * The ID is derived from a SHA-256 hash and survives clearing localStorage,
+   * but identical devices with identical settings share an ID
+   * By default a timestamp is appended, making every generated ID unique
+   */
+  deterministic?: boolean;
+
+  /**
+   * Enable or disable individual fingerprint collectors by name (optional)
+   * The built-in collectors are off unless enabled here
+   * @example { audio: true, fonts: true, mediaQueries: true }
+   */
+  collectors?: Partial<Record<FingerprintCollectorName | (string & {}), boolean>>;
+
+  /**
+   * Maximum time in milliseconds to wait for each collector (optional, defaults to 250)
+   * Collectors that take longer are left out so they cannot hold up tracking
+   */
+  collectorTimeout?: number;
+
+  /**
+   * Minimum similarity (0-1) for a stored fingerprint ID to be kept when components change (optional)
+   * When set, the components are stored alongside the ID and compared on each load;
+   * below the threshold a new ID is generated. Without it the stored ID is always kept
+   * @example 0.75 // survives a browser update that only changes the user agent
+   */
+  matchThreshold?: number;
+}
+
+/**
+ * Result of comparing two sets of fingerprint components
+ */
+export interface FingerprintComparison {
+  /**
+   * Share of the combined component entropy that matched (0-1)
+   */
+  similarity: number;
+
+  /**
+   * Components whose values differ, including ones present on only one side
+   */
+  changed: string[];
+
+  /**
+   * Components whose values are equal
+   */
+  unchanged: string[];
+}
+
+/**
+ * Entropy and stability estimate for a single fingerprint component
+ */
+export interface FingerprintComponentScore {
+  /**
+   * Component name, or the collector name for extended signals
+   */
+  name: string;
+
+  /**
+   * Whether the component could be collected
+   */
+  present: boolean;
+
+  /**
+   * Estimated identifying information in bits
+   */
+  entropy: number;
+
+  /**
+   * Estimated probability that the component is unchanged after a few months (0-1)
+   */
+  stability: number;
+}
+
+/**
+ * Reliability estimate for a fingerprint
+ */
+export interface FingerprintConfidence {
+  /**
+   * Overall confidence (0-1), combining uniqueness and stability
+   */
+  score: number;
+
+  /**
+   * How well the collected components single out one browser (0-1)
+   */
+  uniqueness: number;
+
+  /**
+   * Estimated probability that no collected component changes after a few months (0-1)
+   */
+  stability: number;
+
+  /**
+   * Total estimated entropy of the collected components in bits
+   */
+  entropy: number;
+
+  /**
+   * Per-component estimates
+   */
+  components: FingerprintComponentScore[];
 }
 
 /**
@@ -220,116 +889,299 @@ export interface TrackingResponse {
  */
 export interface TimezoneInfo {
   /**
-   * Timezone name (e.g., "America/New_York")
+   * Timezone name (e.g., "America/New_York")
+   */
+  name: string;
+
+  /**
+   * Timezone abbreviation (e.g., "EST", "PST")
+   */
+  abbr: string;
+
+  /**
+   * UTC offset in format "+HHMM" or "-HHMM"
+   */
+  offset: string;
+
+  /**
+   * Whether daylight saving time is currently active
+   */
+  is_dst: boolean;
+
+  /**
+   * Current time in the timezone (ISO 8601 format)
+   */
+  current_time: string;
+}
+
+/**
+ * Currency information for an IP address
+ */
+export interface CurrencyInfo {
+  /**
+   * Currency name (e.g., "US Dollar")
+   */
+  name: string;
+
+  /**
+   * Currency code (ISO 4217, e.g., "USD")
+   */
+  code: string;
+
+  /**
+   * Currency symbol (e.g., "$")
+   */
+  symbol: string;
+
+  /**
+   * Native currency symbol
+   */
+  native: string;
+
+  /**
+   * Plural form of the currency name
+   */
+  plural: string;
+}
+
+/**
+ * ASN (Autonomous System Number) information
+ */
+export interface ASNInfo {
+  /**
+   * ASN number (e.g., "AS15169")
+   */
+  asn: string;
+
+  /**
+   * Organization name
+   */
+  name: string;
+
+  /**
+   * Domain name
+   */
+  domain: string | null;
+
+  /**
+   * IP route/network
+   */
+  route: string | null;
+
+  /**
+   * Connection type (e.g., "isp", "hosting")
+   */
+  type: string;
+}
+
+/**
+ * Company information for an IP address
+ */
+export interface CompanyInfo {
+  /**
+   * Company name
+   */
+  name: string;
+
+  /**
+   * Company domain
+   */
+  domain: string | null;
+
+  /**
+   * Network identifier
+   */
+  network: string | null;
+
+  /**
+   * Organization type (e.g., "business", "education")
+   */
+  type: string;
+}
+
+/**
+ * Special-purpose range an IP address belongs to
+ * 'public' means the address is globally routable
+ */
+export type IPRangeType =
+  | 'public'
+  | 'private'
+  | 'unique_local'
+  | 'loopback'
+  | 'link_local'
+  | 'cgnat'
+  | 'multicast'
+  | 'documentation'
+  | 'unspecified'
+  | 'broadcast'
+  | 'reserved';
+
+/**
+ * Parsed and normalised IP address
+ */
+export interface ParsedIP {
+  /**
+   * IP version
+   */
+  version: 4 | 6;
+
+  /**
+   * Normalised address (dotted decimal for IPv4, compressed lowercase for IPv6)
+   */
+  address: string;
+
+  /**
+   * Address bytes (4 for IPv4, 16 for IPv6)
+   */
+  bytes: number[];
+
+  /**
+   * IPv6 zone ID (e.g. "eth0" in "fe80::1%eth0")
+   */
+  zone?: string;
+
+  /**
+   * Embedded IPv4 address of an IPv4-mapped IPv6 address (e.g. "192.0.2.1" in "::ffff:192.0.2.1")
    */
-  name: string;
+  mappedIPv4?: string;
+}
 
+/**
+ * Parsed CIDR block
+ */
+export interface ParsedCIDR {
   /**
-   * Timezone abbreviation (e.g., "EST", "PST")
+   * IP version
    */
-  abbr: string;
+  version: 4 | 6;
 
   /**
-   * UTC offset in format "+HHMM" or "-HHMM"
+   * Network address with host bits cleared (e.g. "192.0.2.0" for "192.0.2.77/24")
    */
-  offset: string;
+  network: string;
 
   /**
-   * Whether daylight saving time is currently active
+   * Prefix length in bits
    */
-  is_dst: boolean;
+  prefix: number;
 
   /**
-   * Current time in the timezone (ISO 8601 format)
+   * Network address bytes (4 for IPv4, 16 for IPv6)
    */
-  current_time: string;
+  bytes: number[];
 }
 
 /**
- * Currency information for an IP address
+ * Address range covered by a CIDR block
  */
-export interface CurrencyInfo {
+export interface CIDRInfo extends ParsedCIDR {
   /**
-   * Currency name (e.g., "US Dollar")
+   * Normalised CIDR notation (e.g. "192.0.2.0/24")
    */
-  name: string;
+  cidr: string;
 
   /**
-   * Currency code (ISO 4217, e.g., "USD")
+   * Broadcast address for IPv4, last address of the block for IPv6
    */
-  code: string;
+  broadcast: string;
 
   /**
-   * Currency symbol (e.g., "$")
+   * First address of the block (same as the network address)
    */
-  symbol: string;
+  first: string;
 
   /**
-   * Native currency symbol
+   * Last address of the block
    */
-  native: string;
+  last: string;
 
   /**
-   * Plural form of the currency name
+   * Number of addresses in the block
    */
-  plural: string;
+  size: bigint;
 }
 
 /**
- * ASN (Autonomous System Number) information
+ * Sub-resources of `/api/ipdata/:ip` that can be fetched on their own
  */
-export interface ASNInfo {
-  /**
-   * ASN number (e.g., "AS15169")
-   */
-  asn: string;
+export type IPDataResource = 'time_zone' | 'currency' | 'asn' | 'company';
 
+/**
+ * Options for bulk IP lookups
+ */
+export interface BulkLookupOptions extends RequestOptions {
   /**
-   * Organization name
+   * Maximum number of IPs sent per request (defaults to 100)
    */
-  name: string;
+  batchSize?: number;
 
   /**
-   * Domain name
+   * Maximum number of batch requests running at once (defaults to 4)
    */
-  domain: string | null;
+  concurrency?: number;
+}
 
+/**
+ * Per-call options for API lookups
+ */
+export interface RequestOptions {
   /**
-   * IP route/network
+   * Signal to cancel the lookup; the call rejects with an AbortError
+   * Requests shared with other callers are only cancelled once every caller has aborted
    */
-  route: string | null;
+  signal?: AbortSignal;
 
   /**
-   * Connection type (e.g., "isp", "hosting")
+   * Timeout for each attempt of this call in milliseconds (overrides the `timeout` option)
+   * Set to 0 to wait indefinitely
    */
-  type: string;
+  timeout?: number;
 }
 
 /**
- * Company information for an IP address
+ * Retry settings for failed API requests
+ * Network errors, timeouts, 5xx and 429 responses are retried; other errors fail immediately
  */
-export interface CompanyInfo {
+export interface RetryConfig {
   /**
-   * Company name
+   * Number of retries after the first attempt (defaults to 2)
    */
-  name: string;
+  retries?: number;
 
   /**
-   * Company domain
+   * Delay before the first retry in milliseconds, doubled for each retry and jittered (defaults to 300)
    */
-  domain: string | null;
+  baseDelay?: number;
 
   /**
-   * Network identifier
+   * Maximum delay between attempts in milliseconds (defaults to 5 seconds)
+   * A longer Retry-After from a 429 response fails the call with the RateLimitError instead of waiting
    */
-  network: string | null;
+  maxDelay?: number;
+}
 
+/**
+ * Circuit breaker settings
+ * After `threshold` consecutive failed calls, requests fail fast with a CircuitOpenError
+ * for `cooldown` milliseconds; then a single trial request decides whether to resume
+ */
+export interface CircuitBreakerConfig {
   /**
-   * Organization type (e.g., "business", "education")
+   * Consecutive failed calls that open the circuit (defaults to 5)
    */
-  type: string;
+  threshold?: number;
+
+  /**
+   * How long the circuit stays open in milliseconds (defaults to 30 seconds)
+   */
+  cooldown?: number;
 }
 
+/**
+ * Result of a bulk lookup: each IP maps to its data or the error for that IP
+ */
+export type BulkLookupResult = Record<string, LocaleOSResult<ComprehensiveIPData>>;
+
 /**
  * Comprehensive IP data in ipdata.co format
  */
@@ -497,19 +1349,341 @@ export interface ComprehensiveIPData {
   /**
    * Device information from User-Agent
    */
-  device?: {
-    name: string;
-    type: string | null;
-    brand: string | null;
-    model: string | null;
-    os: string | null;
-    os_version: string | null;
-    browser: string | null;
-    browser_version: string | null;
-    is_mobile: boolean;
-    is_tablet: boolean;
-    is_desktop: boolean;
-    is_bot: boolean;
-    user_agent: string | null;
-  };
+  device?: UserAgentDevice;
+}
+
+/**
+ * IP data fields used to resolve a locale
+ * A full ComprehensiveIPData object can be passed directly
+ */
+export type LocaleSource = Partial<Pick<ComprehensiveIPData, 'country_code' | 'languages' | 'time_zone' | 'currency'>>;
+
+/**
+ * Options for resolving a locale
+ */
+export interface LocaleOptions {
+  /**
+   * Preferred languages in order, e.g. from an Accept-Language header (optional)
+   * Defaults to navigator.languages in the browser
+   */
+  languages?: readonly string[];
+}
+
+/**
+ * Measurement system used in a country
+ * 'uk' mixes metric units with miles, pints and stones
+ */
+export type MeasurementSystem = 'metric' | 'us' | 'uk';
+
+/**
+ * Ready-made Intl formatters for a visitor
+ */
+export interface LocaleFormatters {
+  /**
+   * Plain number formatter
+   */
+  number: Intl.NumberFormat;
+
+  /**
+   * Formatter for amounts in the local currency (null if the currency is unknown)
+   */
+  currency: Intl.NumberFormat | null;
+
+  /**
+   * Date formatter in the IP timezone
+   */
+  date: Intl.DateTimeFormat;
+
+  /**
+   * Time formatter in the IP timezone
+   */
+  time: Intl.DateTimeFormat;
+
+  /**
+   * Date and time formatter in the IP timezone
+   */
+  dateTime: Intl.DateTimeFormat;
+}
+
+/**
+ * Locale and formatting details for a visitor
+ */
+export interface LocaleInfo {
+  /**
+   * Best-guess BCP 47 locale (e.g., "fr-CH")
+   */
+  locale: string;
+
+  /**
+   * Language subtag of the locale (e.g., "fr")
+   */
+  language: string;
+
+  /**
+   * Country code (ISO 3166-1 alpha-2) from the IP location, or the locale region
+   */
+  country: string | null;
+
+  /**
+   * Currency code (ISO 4217) from the IP location
+   */
+  currency: string | null;
+
+  /**
+   * IANA timezone from the IP location, falling back to the runtime timezone
+   */
+  timeZone: string;
+
+  /**
+   * Measurement system used in the country
+   */
+  measurementSystem: MeasurementSystem;
+
+  /**
+   * First day of the week as an ISO weekday number (1 = Monday, 7 = Sunday)
+   */
+  firstDayOfWeek: number;
+
+  /**
+   * Whether the locale uses a 12-hour (h12) or 24-hour (h23) clock
+   */
+  hourCycle: 'h12' | 'h23';
+
+  /**
+   * Ready-made Intl formatters
+   */
+  formatters: LocaleFormatters;
+}
+
+/**
+ * Reason contributing to a risk assessment
+ */
+export type RiskSignalCode =
+  | 'tor'
+  | 'vpn'
+  | 'proxy'
+  | 'relay'
+  | 'hosting'
+  | 'threat'
+  | 'bogon'
+  | 'timezone_mismatch'
+  | 'language_mismatch'
+  | 'automation';
+
+/**
+ * Single signal in a risk assessment
+ */
+export interface RiskSignal {
+  /**
+   * Machine-readable signal code
+   */
+  code: RiskSignalCode;
+
+  /**
+   * Contribution to the overall score (0-1)
+   */
+  weight: number;
+
+  /**
+   * Human-readable explanation
+   */
+  message: string;
+}
+
+/**
+ * Overall risk level
+ */
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+/**
+ * Browser signals compared with the IP data in a risk assessment
+ */
+export interface RiskClientSignals {
+  /**
+   * IANA timezone reported by the browser (e.g., from Intl.DateTimeFormat().resolvedOptions().timeZone)
+   */
+  timeZone?: string;
+
+  /**
+   * Languages preferred by the browser (e.g., navigator.languages or Accept-Language)
+   */
+  languages?: readonly string[];
+
+  /**
+   * Result of detectAutomation() in the browser
+   */
+  automation?: AutomationResult;
+}
+
+/**
+ * Scored, explainable risk verdict for an IP address
+ */
+export interface RiskAssessment {
+  /**
+   * Assessed IP address
+   */
+  ip: string;
+
+  /**
+   * Combined risk score (0-1)
+   */
+  score: number;
+
+  /**
+   * Risk level: low below 0.3, medium below 0.6, high from 0.6
+   */
+  level: RiskLevel;
+
+  /**
+   * Suggested action for the risk level
+   */
+  verdict: 'allow' | 'review' | 'block';
+
+  /**
+   * Signals that contributed to the score
+   */
+  signals: RiskSignal[];
+}
+
+/**
+ * Location data accepted by the geo rule engine
+ */
+export type GeoRuleInput = LocationInfo | ComprehensiveIPData;
+
+/**
+ * Privacy flags that can be targeted by geo rules
+ */
+export type GeoPrivacyFlag = 'vpn' | 'proxy' | 'tor' | 'relay' | 'hosting';
+
+/**
+ * JSON-serializable condition over location data
+ * Every key present must match; an empty condition matches everything
+ */
+export interface GeoCondition {
+  /**
+   * Country code(s) (ISO 3166-1 alpha-2)
+   */
+  country?: string | string[];
+
+  /**
+   * Continent code(s), e.g. "EU", "NA"
+   */
+  continent?: string | string[];
+
+  /**
+   * Whether the IP is in the European Union
+   */
+  eu?: boolean;
+
+  /**
+   * Region name(s) or code(s), e.g. "California" or "CA"
+   */
+  region?: string | string[];
+
+  /**
+   * City name(s)
+   */
+  city?: string | string[];
+
+  /**
+   * Autonomous system number(s), e.g. 15169 or "AS15169"
+   */
+  asn?: string | number | Array<string | number>;
+
+  /**
+   * CIDR block(s) containing the IP address
+   */
+  cidr?: string | string[];
+
+  /**
+   * Matches if any of the privacy flags is set
+   */
+  privacy?: GeoPrivacyFlag | GeoPrivacyFlag[];
+
+  /**
+   * Device type(s): desktop, mobile, tablet or bot
+   */
+  device?: string | string[];
+
+  /**
+   * Matches if all nested conditions match
+   */
+  all?: GeoCondition[];
+
+  /**
+   * Matches if any nested condition matches
+   */
+  any?: GeoCondition[];
+
+  /**
+   * Matches if the nested condition does not match
+   */
+  not?: GeoCondition;
+}
+
+/**
+ * Rule mapping a geo condition to a variant
+ */
+export interface GeoRule<V = string> {
+  /**
+   * Optional identifier for logging and debugging
+   */
+  id?: string;
+
+  /**
+   * Condition that selects this rule
+   */
+  when: GeoCondition;
+
+  /**
+   * Value returned when the rule matches (e.g. a pricing region or feature flag)
+   */
+  variant: V;
+}
+
+/**
+ * Current state of a LocaleOS client, returned by getSnapshot()
+ * A new object is created on every change, so snapshots can be compared by reference
+ */
+export interface LocaleOSSnapshot {
+  /**
+   * Last detected IP address of the visitor
+   */
+  ip: string | null;
+
+  /**
+   * Last loaded location info, cleared by clearCache()
+   */
+  location: LocationInfo | null;
+
+  /**
+   * Visitor's current consent
+   */
+  consent: ConsentState;
+
+  /**
+   * Last lookup error, cleared when location info is loaded
+   */
+  error: LocaleOSError | null;
 }
+
+/**
+ * Event emitted to subscribers of a LocaleOS client
+ */
+export type LocaleOSEvent =
+  | { type: 'location:updated'; location: LocationInfo }
+  | { type: 'ip:changed'; ip: string; previousIp: string | null }
+  | { type: 'cache:cleared' }
+  | { type: 'consent:changed'; consent: ConsentState }
+  | { type: 'track:sent'; event: string | null; response: TrackingResponse }
+  | { type: 'error'; error: LocaleOSError; message: string };
+
+/**
+ * Type of a LocaleOS event
+ */
+export type LocaleOSEventType = LocaleOSEvent['type'];
+
+/**
+ * Listener for LocaleOS events
+ */
+export type LocaleOSListener = (event: LocaleOSEvent) => void;
@@ -0,0 +1,144 @@
+import type { LocaleOSToken, LocaleOSTokenProvider } from '../types';
+import { AuthenticationError, toLocaleOSError } from '../errors';
+
+const SECRET_KEY_PREFIX = 'leos_sk_';
+const PUBLISHABLE_KEY_PREFIX = 'leos_pk_';
+
+/**
+ * Tokens are refreshed this long before they expire, to allow for clock skew and slow requests
+ */
+const EXPIRY_MARGIN = 30 * 1000;
+
+/**
+ * Check if an API key is a secret server key (`leos_sk_...`)
+ * Secret keys must never be shipped to the browser
+ */
+export function isSecretKey(key: string): boolean {
+  return key.startsWith(SECRET_KEY_PREFIX);
+}
+
+/**
+ * Check if an API key is a publishable key (`leos_pk_...`) that is safe to use in the browser
+ */
+export function isPublishableKey(key: string): boolean {
+  return key.startsWith(PUBLISHABLE_KEY_PREFIX);
+}
+
+/**
+ * Credentials a client authenticates with
+ */
+export interface CredentialsConfig {
+  apiKey?: string;
+  getToken?: LocaleOSTokenProvider;
+}
+
+/**
+ * Builds the authentication headers for API requests
+ * API keys are sent in the X-API-Key header; tokens from `getToken` are sent as a bearer token,
+ * requested lazily, shared by concurrent requests and refreshed before they expire
+ */
+export class Credentials {
+  private apiKey: string | null;
+  private getToken: LocaleOSTokenProvider | null;
+  private token: { value: string; expiresAt: number | null } | null = null;
+  private pending: Promise<string> | null = null;
+
+  constructor(config: CredentialsConfig) {
+    this.apiKey = config.apiKey || null;
+    this.getToken = config.getToken || null;
+  }
+
+  /**
+   * Whether a rejected token can be replaced by requesting a new one
+   */
+  public get canRefresh(): boolean {
+    return this.getToken !== null;
+  }
+
+  /**
+   * Get the headers that authenticate a request
+   * @throws AuthenticationError if the token provider fails or returns no token
+   */
+  public async getHeaders(): Promise<Record<string, string>> {
+    if (this.getToken) {
+      return { Authorization: `Bearer ${await this.getValidToken()}` };
+    }
+    return this.apiKey ? { 'X-API-Key': this.apiKey } : {};
+  }
+
+  /**
+   * Get the credential to put in a request body, for requests that cannot carry headers (sendBeacon)
+   * Only returns a token that is already loaded and not expired
+   */
+  public getBodyCredential(): { api_key: string } | { token: string } | null {
+    if (this.getToken) {
+      return this.token && !this.isExpired(this.token.expiresAt) ? { token: this.token.value } : null;
+    }
+    return this.apiKey ? { api_key: this.apiKey } : null;
+  }
+
+  /**
+   * Drop the current token so the next request asks for a new one
+   * Called when the API rejects the token before its known expiry
+   */
+  public invalidate(): void {
+    this.token = null;
+  }
+
+  /**
+   * Get the current token, requesting a new one when it is missing or about to expire
+   * @private
+   */
+  private async getValidToken(): Promise<string> {
+    if (this.token && !this.isExpired(this.token.expiresAt)) {
+      return this.token.value;
+    }
+
+    if (!this.pending) {
+      this.pending = this.requestToken().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  /**
+   * Call the token provider and store its result
+   * @private
+   */
+  private async requestToken(): Promise<string> {
+    let result: string | LocaleOSToken;
+    try {
+      result = await (this.getToken as LocaleOSTokenProvider)();
+    } catch (error) {
+      const cause = toLocaleOSError(error);
+      throw new AuthenticationError(`Failed to get a LocaleOS token: ${cause.message}`);
+    }
+
+    const token = typeof result === 'string' ? { token: result } : result;
+    if (!token || !token.token) {
+      throw new AuthenticationError('The getToken callback did not return a token');
+    }
+
+    this.token = { value: token.token, expiresAt: parseExpiry(token.expiresAt) };
+    return token.token;
+  }
+
+  /**
+   * Check if a token expires within the refresh margin
+   * @private
+   */
+  private isExpired(expiresAt: number | null): boolean {
+    return expiresAt !== null && expiresAt - EXPIRY_MARGIN <= Date.now();
+  }
+}
+
+/**
+ * Convert a token expiry (milliseconds timestamp or ISO date) to a timestamp
+ * @returns Timestamp in milliseconds, or null if unknown
+ */
+function parseExpiry(expiresAt: LocaleOSToken['expiresAt']): number | null {
+  if (expiresAt === undefined || expiresAt === null) return null;
+  const time = typeof expiresAt === 'number' ? expiresAt : Date.parse(expiresAt);
+  return Number.isFinite(time) ? time : null;
+}
@@ -0,0 +1,111 @@
+import type { BulkLookupOptions, BulkLookupResult, ComprehensiveIPData } from '../types';
+import { InvalidInputError, LocaleOSError, toLocaleOSError } from '../errors';
+import { normalizeIP } from './ip';
+
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Data sources used by a bulk lookup
+ */
+export interface BulkLookupSource {
+  /**
+   * Get cached comprehensive data for an IP, or null
+   */
+  getCached: (ip: string) => Promise<ComprehensiveIPData | null>;
+
+  /**
+   * Fetch comprehensive data for a batch of IPs
+   */
+  fetchBatch: (ips: string[]) => Promise<ComprehensiveIPData[]>;
+
+  /**
+   * Store comprehensive data for an IP
+   */
+  saveToCache: (ip: string, data: ComprehensiveIPData) => Promise<void>;
+}
+
+/**
+ * Split a list into chunks of at most `size` items
+ */
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Run tasks with at most `concurrency` running at once
+ */
+async function runWithConcurrency(tasks: Array<() => Promise<void>>, concurrency: number): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(concurrency, tasks.length) }, async () => {
+    while (next < tasks.length) {
+      const task = tasks[next++];
+      await task();
+    }
+  });
+  await Promise.all(workers);
+}
+
+/**
+ * Look up many IPs at once
+ * Validates, normalises and deduplicates input, serves cached entries, then fetches the rest
+ * in batches with bounded concurrency
+ * @returns Map of IP address to its data or a per-IP error, keyed by the normalized address
+ * (or the raw input when it is invalid); the object has no prototype, so any input is a safe key
+ */
+export async function runBulkLookup(
+  ips: string[],
+  source: BulkLookupSource,
+  options: BulkLookupOptions = {}
+): Promise<BulkLookupResult> {
+  const batchSize = Math.max(1, options.batchSize ?? DEFAULT_BATCH_SIZE);
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+  const results: BulkLookupResult = Object.create(null);
+  const pending: string[] = [];
+
+  for (const value of new Set(ips.map(ip => normalizeIP(ip) || ip))) {
+    const ip = normalizeIP(value);
+    if (!ip) {
+      results[value] = { ok: false, error: new InvalidInputError(`Invalid IP address: ${value}`) };
+      continue;
+    }
+
+    const cached = await source.getCached(ip);
+    if (cached) {
+      results[ip] = { ok: true, data: cached };
+    } else {
+      pending.push(ip);
+    }
+  }
+
+  const tasks = chunk(pending, batchSize).map(batch => async () => {
+    try {
+      const data = await source.fetchBatch(batch);
+      // The API may echo addresses in another form (e.g. uncompressed IPv6), so match on the normalized address
+      const byIp = new Map(data.map(item => [normalizeIP(item.ip) || item.ip, item]));
+
+      for (const ip of batch) {
+        const item = byIp.get(ip);
+        if (item) {
+          results[ip] = { ok: true, data: item };
+          await source.saveToCache(ip, item);
+        } else {
+          results[ip] = { ok: false, error: new LocaleOSError(`No data returned for ${ip}`) };
+        }
+      }
+    } catch (error) {
+      const localeOSError = toLocaleOSError(error);
+      for (const ip of batch) {
+        results[ip] = { ok: false, error: localeOSError };
+      }
+    }
+  });
+
+  await runWithConcurrency(tasks, concurrency);
+
+  return results;
+}
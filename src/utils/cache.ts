@@ -0,0 +1,242 @@
+import type { CacheAdapter, CacheResource } from '../types';
+
+/**
+ * Stored cache entry with its expiry time
+ */
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+/**
+ * Build the cache key for a resource of an IP address
+ */
+export function getCacheKey(resource: CacheResource, ip: string): string {
+  return `${resource}:${ip}`;
+}
+
+/**
+ * Check whether a stored entry is still valid
+ */
+function isFresh<T>(entry: CacheEntry<T> | null | undefined): entry is CacheEntry<T> {
+  return !!entry && (entry.expiresAt === 0 || entry.expiresAt > Date.now());
+}
+
+/**
+ * Compute the expiry time for a TTL in milliseconds (0 never expires)
+ */
+function getExpiresAt(ttl: number): number {
+  return ttl > 0 ? Date.now() + ttl : 0;
+}
+
+/**
+ * In-memory cache with least-recently-used eviction
+ * Works in every environment, including servers and workers
+ */
+export class MemoryCache implements CacheAdapter {
+  private entries = new Map<string, CacheEntry<unknown>>();
+
+  /**
+   * @param maxEntries - Maximum number of entries before the least recently used is evicted (defaults to 500)
+   */
+  constructor(private maxEntries: number = 500) {}
+
+  public get<T>(key: string): T | null {
+    const entry = this.entries.get(key) as CacheEntry<T> | undefined;
+    if (!isFresh(entry)) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    // Move to the end so it is evicted last
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  public set<T>(key: string, value: T, ttl: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: getExpiresAt(ttl) });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  public delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  public clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Cache backed by a Web Storage area, with all keys under a common prefix
+ */
+class WebStorageCache implements CacheAdapter {
+  constructor(private getStorage: () => Storage, private prefix: string) {}
+
+  public get<T>(key: string): T | null {
+    try {
+      const stored = this.getStorage().getItem(this.prefix + key);
+      if (!stored) return null;
+
+      const entry: CacheEntry<T> = JSON.parse(stored);
+      if (!isFresh(entry)) {
+        this.delete(key);
+        return null;
+      }
+
+      return entry.value;
+    } catch (error) {
+      console.warn('[LocaleOS] Failed to read cache from storage:', error);
+      return null;
+    }
+  }
+
+  public set<T>(key: string, value: T, ttl: number): void {
+    try {
+      const entry: CacheEntry<T> = { value, expiresAt: getExpiresAt(ttl) };
+      this.getStorage().setItem(this.prefix + key, JSON.stringify(entry));
+    } catch (error) {
+      console.warn('[LocaleOS] Failed to save cache to storage:', error);
+    }
+  }
+
+  public delete(key: string): void {
+    try {
+      this.getStorage().removeItem(this.prefix + key);
+    } catch (error) {
+      console.warn('[LocaleOS] Failed to remove cache entry from storage:', error);
+    }
+  }
+
+  public clear(): void {
+    try {
+      const storage = this.getStorage();
+      const keys: string[] = [];
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i);
+        if (key && key.startsWith(this.prefix)) keys.push(key);
+      }
+      keys.forEach(key => storage.removeItem(key));
+    } catch (error) {
+      console.warn('[LocaleOS] Failed to clear cache from storage:', error);
+    }
+  }
+}
+
+/**
+ * Cache backed by localStorage, persisted across sessions
+ */
+export class LocalStorageCache extends WebStorageCache {
+  /**
+   * @param prefix - Prefix for all storage keys (defaults to 'localeos_cache:')
+   */
+  constructor(prefix: string = 'localeos_cache:') {
+    super(() => localStorage, prefix);
+  }
+}
+
+/**
+ * Cache backed by sessionStorage, cleared when the tab is closed
+ */
+export class SessionStorageCache extends WebStorageCache {
+  /**
+   * @param prefix - Prefix for all storage keys (defaults to 'localeos_cache:')
+   */
+  constructor(prefix: string = 'localeos_cache:') {
+    super(() => sessionStorage, prefix);
+  }
+}
+
+/**
+ * Cache backed by IndexedDB, suited to large numbers of entries
+ */
+export class IndexedDBCache implements CacheAdapter {
+  private db: Promise<IDBDatabase> | null = null;
+
+  /**
+   * @param databaseName - IndexedDB database name (defaults to 'localeos')
+   * @param storeName - Object store name (defaults to 'cache')
+   */
+  constructor(private databaseName: string = 'localeos', private storeName: string = 'cache') {}
+
+  public async get<T>(key: string): Promise<T | null> {
+    try {
+      const entry = await this.request<CacheEntry<T> | undefined>('readonly', store => store.get(key));
+      if (!isFresh(entry)) {
+        if (entry) await this.delete(key);
+        return null;
+      }
+      return entry.value;
+    } catch (error) {
+      console.warn('[LocaleOS] Failed to read cache from IndexedDB:', error);
+      return null;
+    }
+  }
+
+  public async set<T>(key: string, value: T, ttl: number): Promise<void> {
+    try {
+      const entry: CacheEntry<T> = { value, expiresAt: getExpiresAt(ttl) };
+      await this.request('readwrite', store => store.put(entry, key));
+    } catch (error) {
+      console.warn('[LocaleOS] Failed to save cache to IndexedDB:', error);
+    }
+  }
+
+  public async delete(key: string): Promise<void> {
+    try {
+      await this.request('readwrite', store => store.delete(key));
+    } catch (error) {
+      console.warn('[LocaleOS] Failed to remove cache entry from IndexedDB:', error);
+    }
+  }
+
+  public async clear(): Promise<void> {
+    try {
+      await this.request('readwrite', store => store.clear());
+    } catch (error) {
+      console.warn('[LocaleOS] Failed to clear cache from IndexedDB:', error);
+    }
+  }
+
+  /**
+   * Open the database, creating the object store on first use
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.storeName);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later call to retry if opening failed
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  /**
+   * Run a single request against the object store
+   */
+  private async request<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = run(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
@@ -0,0 +1,216 @@
+import type { CIDRInfo, ParsedCIDR } from '../types';
+import { formatIP, matchesPrefix, parseIP } from './ip';
+
+/**
+ * Get the bytes used to match an address against CIDR blocks
+ * IPv4-mapped IPv6 addresses are matched as IPv4
+ */
+function getMatchBytes(ip: string): number[] | null {
+  const parsed = parseIP(ip);
+  if (!parsed) return null;
+  return parsed.mappedIPv4 ? parsed.bytes.slice(12) : parsed.bytes;
+}
+
+/**
+ * Copy address bytes with every bit after `prefix` set to `bit`
+ */
+function fillHostBits(bytes: number[], prefix: number, bit: 0 | 1): number[] {
+  return bytes.map((byte, i) => {
+    const networkBits = Math.min(8, Math.max(0, prefix - i * 8));
+    const hostMask = 0xff >> networkBits;
+    return bit ? byte | hostMask : byte & ~hostMask & 0xff;
+  });
+}
+
+/**
+ * Parse a CIDR block such as "192.0.2.0/24" or "2001:db8::/32"
+ * A bare IP address is treated as a single-address block (/32 or /128)
+ * Host bits are cleared, so "192.0.2.77/24" parses to the 192.0.2.0 network
+ * @returns Parsed block, or null if the input is not valid CIDR notation
+ */
+export function parseCIDR(value: string): ParsedCIDR | null {
+  if (typeof value !== 'string') return null;
+
+  const [address, prefixPart, ...rest] = value.trim().split('/');
+  if (rest.length > 0) return null;
+
+  const parsed = parseIP(address);
+  if (!parsed || parsed.zone) return null;
+
+  const bytes = parsed.mappedIPv4 ? parsed.bytes.slice(12) : parsed.bytes;
+  const version = bytes.length === 4 ? 4 : 6;
+  const maxPrefix = bytes.length * 8;
+
+  let prefix = maxPrefix;
+  if (prefixPart !== undefined) {
+    if (!/^\d{1,3}$/.test(prefixPart)) return null;
+    prefix = Number(prefixPart);
+    // Prefixes on IPv4-mapped addresses count the 96-bit ::ffff: prefix
+    if (parsed.mappedIPv4) prefix -= 96;
+    if (prefix < 0 || prefix > maxPrefix) return null;
+  }
+
+  const networkBytes = fillHostBits(bytes, prefix, 0);
+  return { version, network: formatIP(networkBytes), prefix, bytes: networkBytes };
+}
+
+/**
+ * Check if a value is valid CIDR notation
+ */
+export function isCIDR(value: string): boolean {
+  return parseCIDR(value) !== null;
+}
+
+/**
+ * Check if an IP address belongs to a CIDR block
+ * @example isInCIDR('8.8.8.8', '8.8.8.0/24') // true
+ */
+export function isInCIDR(ip: string, cidr: string): boolean {
+  const bytes = getMatchBytes(ip);
+  const block = parseCIDR(cidr);
+  if (!bytes || !block || bytes.length !== block.bytes.length) return false;
+  return matchesPrefix(bytes, block.bytes, block.prefix);
+}
+
+/**
+ * Get the address range covered by a CIDR block
+ * @returns Network, broadcast, first/last address and size, or null if the input is not valid CIDR notation
+ */
+export function getCIDRInfo(cidr: string): CIDRInfo | null {
+  const block = parseCIDR(cidr);
+  if (!block) return null;
+
+  const last = formatIP(fillHostBits(block.bytes, block.prefix, 1));
+  const hostBits = block.bytes.length * 8 - block.prefix;
+
+  return {
+    ...block,
+    cidr: `${block.network}/${block.prefix}`,
+    broadcast: last,
+    first: block.network,
+    last,
+    size: BigInt(1) << BigInt(hostBits),
+  };
+}
+
+/**
+ * Compare two IP addresses for sorting
+ * IPv4 addresses sort before IPv6; invalid addresses sort last
+ * @returns Negative if `a` comes first, positive if `b` comes first, 0 if equal
+ */
+export function compareIPs(a: string, b: string): number {
+  const aBytes = getMatchBytes(a);
+  const bBytes = getMatchBytes(b);
+
+  if (!aBytes || !bBytes) return (aBytes ? 0 : 1) - (bBytes ? 0 : 1);
+  if (aBytes.length !== bBytes.length) return aBytes.length - bBytes.length;
+
+  for (let i = 0; i < aBytes.length; i++) {
+    if (aBytes[i] !== bBytes[i]) return aBytes[i] - bBytes[i];
+  }
+  return 0;
+}
+
+/**
+ * Sort IP addresses numerically (returns a new array)
+ */
+export function sortIPs(ips: string[]): string[] {
+  return [...ips].sort(compareIPs);
+}
+
+/**
+ * Node of the binary prefix tree used by IPSet
+ */
+interface PrefixNode {
+  children: [PrefixNode | null, PrefixNode | null];
+  terminal: boolean;
+}
+
+/**
+ * Create an empty prefix tree node
+ */
+function createNode(): PrefixNode {
+  return { children: [null, null], terminal: false };
+}
+
+/**
+ * Get a single bit of an address, most significant first
+ */
+function getBit(bytes: number[], index: number): 0 | 1 {
+  return ((bytes[index >> 3] >> (7 - (index & 7))) & 1) as 0 | 1;
+}
+
+/**
+ * Set of IP addresses and CIDR blocks backed by a binary prefix tree
+ * Membership checks take at most 32 (IPv4) or 128 (IPv6) steps regardless of the number of entries,
+ * which suits allow and deny lists
+ *
+ * @example
+ * const denyList = new IPSet(['10.0.0.0/8', '2001:db8::/32']);
+ * denyList.has('10.1.2.3'); // true
+ */
+export class IPSet {
+  private roots: { 4: PrefixNode; 6: PrefixNode } = { 4: createNode(), 6: createNode() };
+  private entries = new Set<string>();
+
+  /**
+   * @param cidrs - Initial IP addresses or CIDR blocks
+   */
+  constructor(cidrs: Iterable<string> = []) {
+    for (const cidr of cidrs) {
+      this.add(cidr);
+    }
+  }
+
+  /**
+   * Add an IP address or CIDR block
+   * @returns false if the input is not a valid IP address or CIDR block
+   */
+  public add(cidr: string): boolean {
+    const block = parseCIDR(cidr);
+    if (!block) return false;
+
+    let node = this.roots[block.version];
+    for (let i = 0; i < block.prefix; i++) {
+      // A shorter block already covers this one
+      if (node.terminal) break;
+
+      const bit = getBit(block.bytes, i);
+      node = node.children[bit] || (node.children[bit] = createNode());
+    }
+    node.terminal = true;
+
+    this.entries.add(`${block.network}/${block.prefix}`);
+    return true;
+  }
+
+  /**
+   * Check if an IP address is covered by any entry in the set
+   */
+  public has(ip: string): boolean {
+    const bytes = getMatchBytes(ip);
+    if (!bytes) return false;
+
+    let node: PrefixNode | null = this.roots[bytes.length === 4 ? 4 : 6];
+    for (let i = 0; node; i++) {
+      if (node.terminal) return true;
+      if (i === bytes.length * 8) break;
+      node = node.children[getBit(bytes, i)];
+    }
+    return false;
+  }
+
+  /**
+   * Normalised CIDR blocks that were added to the set
+   */
+  public toArray(): string[] {
+    return Array.from(this.entries);
+  }
+
+  /**
+   * Number of CIDR blocks that were added to the set
+   */
+  public get size(): number {
+    return this.entries.size;
+  }
+}
@@ -0,0 +1,330 @@
+import type { FingerprintCollector, FingerprintOptions, FingerprintValue } from '../types';
+
+const DEFAULT_COLLECTOR_TIMEOUT = 250;
+
+/**
+ * Fonts probed by the font collector
+ * A mix of fonts bundled with specific operating systems and common office suites
+ */
+const PROBE_FONTS = [
+  'Arial Black',
+  'Calibri',
+  'Cambria',
+  'Candara',
+  'Century Gothic',
+  'Comic Sans MS',
+  'Consolas',
+  'Courier New',
+  'DejaVu Sans',
+  'Franklin Gothic Medium',
+  'Futura',
+  'Garamond',
+  'Geneva',
+  'Helvetica Neue',
+  'Impact',
+  'Liberation Sans',
+  'Lucida Console',
+  'Lucida Grande',
+  'Menlo',
+  'Monaco',
+  'Noto Sans',
+  'Palatino',
+  'Roboto',
+  'Segoe UI',
+  'SF Pro Text',
+  'Tahoma',
+  'Trebuchet MS',
+  'Ubuntu',
+  'Verdana',
+];
+
+const FALLBACK_FONTS = ['monospace', 'sans-serif', 'serif'];
+
+/**
+ * Audio constructors, including the prefixed one from older Safari versions
+ */
+type AudioWindow = Window & {
+  OfflineAudioContext?: typeof OfflineAudioContext;
+  webkitOfflineAudioContext?: typeof OfflineAudioContext;
+};
+
+/**
+ * Fingerprint the audio stack by rendering an oscillator through a compressor offline
+ * Small floating point differences between audio implementations change the output
+ */
+async function collectAudio(): Promise<FingerprintValue> {
+  const audioWindow = window as AudioWindow;
+  const AudioContext = audioWindow.OfflineAudioContext || audioWindow.webkitOfflineAudioContext;
+  if (!AudioContext) return null;
+
+  const context = new AudioContext(1, 5000, 44100);
+  const oscillator = context.createOscillator();
+  oscillator.type = 'triangle';
+  oscillator.frequency.value = 10000;
+
+  const compressor = context.createDynamicsCompressor();
+  compressor.threshold.value = -50;
+  compressor.knee.value = 40;
+  compressor.ratio.value = 12;
+  compressor.attack.value = 0;
+  compressor.release.value = 0.25;
+
+  oscillator.connect(compressor);
+  compressor.connect(context.destination);
+  oscillator.start(0);
+
+  const buffer = await context.startRendering();
+  const samples = buffer.getChannelData(0);
+
+  let sum = 0;
+  for (let i = 4500; i < samples.length; i++) {
+    sum += Math.abs(samples[i]);
+  }
+  return sum.toFixed(6);
+}
+
+/**
+ * Detect installed fonts by comparing text widths against generic fallback fonts
+ */
+function collectFonts(): FingerprintValue {
+  const ctx = document.createElement('canvas').getContext('2d');
+  if (!ctx) return null;
+
+  const sample = 'mmmmmmmmmmlli1WQ@#';
+  const measure = (font: string) => {
+    ctx.font = `72px ${font}`;
+    return ctx.measureText(sample).width;
+  };
+
+  const baseWidths = FALLBACK_FONTS.map(measure);
+
+  return PROBE_FONTS.filter(font =>
+    FALLBACK_FONTS.some((fallback, i) => measure(`'${font}', ${fallback}`) !== baseWidths[i])
+  ).join(',');
+}
+
+/**
+ * Read WebGL limits and the list of supported extensions
+ */
+function collectWebGLParameters(): FingerprintValue {
+  const canvas = document.createElement('canvas');
+  const gl = (canvas.getContext('webgl') ||
+    canvas.getContext('experimental-webgl')) as WebGLRenderingContext | null;
+  if (!gl) return null;
+
+  const parameters = [
+    gl.MAX_TEXTURE_SIZE,
+    gl.MAX_CUBE_MAP_TEXTURE_SIZE,
+    gl.MAX_RENDERBUFFER_SIZE,
+    gl.MAX_VIEWPORT_DIMS,
+    gl.MAX_VERTEX_ATTRIBS,
+    gl.MAX_VERTEX_UNIFORM_VECTORS,
+    gl.MAX_FRAGMENT_UNIFORM_VECTORS,
+    gl.MAX_VARYING_VECTORS,
+    gl.MAX_TEXTURE_IMAGE_UNITS,
+    gl.MAX_VERTEX_TEXTURE_IMAGE_UNITS,
+    gl.MAX_COMBINED_TEXTURE_IMAGE_UNITS,
+    gl.ALIASED_LINE_WIDTH_RANGE,
+    gl.ALIASED_POINT_SIZE_RANGE,
+    gl.SHADING_LANGUAGE_VERSION,
+    gl.VERSION,
+  ].map(parameter => {
+    const value = gl.getParameter(parameter);
+    return value && typeof value === 'object' ? Array.from(value as ArrayLike<number>).join('x') : String(value);
+  });
+
+  const extensions = (gl.getSupportedExtensions() || []).slice().sort();
+
+  return `${parameters.join(',')}|${extensions.join(',')}`;
+}
+
+/**
+ * Count media devices by kind without requesting permission
+ */
+async function collectMediaDevices(): Promise<FingerprintValue> {
+  if (!navigator.mediaDevices?.enumerateDevices) return null;
+
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  const counts: Record<string, number> = {};
+  for (const device of devices) {
+    counts[device.kind] = (counts[device.kind] || 0) + 1;
+  }
+
+  return ['audioinput', 'audiooutput', 'videoinput']
+    .map(kind => `${kind}:${counts[kind] || 0}`)
+    .join(',');
+}
+
+/**
+ * Describe touch support: max touch points, touch events and TouchEvent construction
+ */
+function collectTouch(): FingerprintValue {
+  let touchEvent = false;
+  try {
+    document.createEvent('TouchEvent');
+    touchEvent = true;
+  } catch (e) {
+    // TouchEvent not supported
+  }
+
+  return [navigator.maxTouchPoints || 0, 'ontouchstart' in window, touchEvent].join(',');
+}
+
+/**
+ * Read user preferences and display capabilities exposed through matchMedia
+ */
+function collectMediaQueries(): FingerprintValue {
+  if (typeof window.matchMedia !== 'function') return null;
+
+  const first = (feature: string, values: string[]) =>
+    values.find(value => window.matchMedia(`(${feature}: ${value})`).matches) || 'unknown';
+
+  return [
+    `colorScheme=${first('prefers-color-scheme', ['dark', 'light'])}`,
+    `reducedMotion=${first('prefers-reduced-motion', ['reduce', 'no-preference'])}`,
+    `colorGamut=${first('color-gamut', ['rec2020', 'p3', 'srgb'])}`,
+    `contrast=${first('prefers-contrast', ['more', 'less', 'custom', 'no-preference'])}`,
+    `forcedColors=${first('forced-colors', ['active', 'none'])}`,
+    `invertedColors=${first('inverted-colors', ['inverted', 'none'])}`,
+    `dynamicRange=${first('dynamic-range', ['high', 'standard'])}`,
+  ].join(';');
+}
+
+/**
+ * Evaluate Math functions whose last digits differ between JavaScript engines and platforms
+ */
+function collectMath(): FingerprintValue {
+  return [
+    Math.acos(0.123124234234234242),
+    Math.acosh(1e308),
+    Math.asinh(1),
+    Math.atanh(0.5),
+    Math.cbrt(100),
+    Math.cosh(1),
+    Math.expm1(1),
+    Math.log1p(10),
+    Math.sinh(1),
+    Math.tan(-1e300),
+    Math.tanh(1),
+  ].join(',');
+}
+
+/**
+ * Read locale defaults and formatting output from the Intl API
+ */
+function collectIntl(): FingerprintValue {
+  const dateOptions = Intl.DateTimeFormat().resolvedOptions();
+  const numberOptions = Intl.NumberFormat().resolvedOptions();
+
+  return [
+    dateOptions.locale,
+    dateOptions.calendar,
+    dateOptions.numberingSystem,
+    new Intl.DateTimeFormat(undefined, { hour: 'numeric' }).resolvedOptions().hour12,
+    numberOptions.locale,
+    new Intl.NumberFormat().format(1234567.891),
+    ['a', 'Z', 'ä', '1'].sort(new Intl.Collator().compare).join(''),
+  ].join(',');
+}
+
+/**
+ * Built-in collectors; off unless enabled through `fingerprint.collectors`
+ */
+const BUILT_IN_COLLECTORS: FingerprintCollector[] = [
+  { name: 'audio', collect: collectAudio, enabled: false, entropy: 5.4, stability: 0.95 },
+  { name: 'fonts', collect: collectFonts, enabled: false, entropy: 7, stability: 0.9 },
+  { name: 'webglParameters', collect: collectWebGLParameters, enabled: false, entropy: 4, stability: 0.9 },
+  { name: 'mediaDevices', collect: collectMediaDevices, enabled: false, entropy: 1.5, stability: 0.8 },
+  { name: 'touch', collect: collectTouch, enabled: false, entropy: 1, stability: 0.99 },
+  { name: 'mediaQueries', collect: collectMediaQueries, enabled: false, entropy: 2, stability: 0.85 },
+  { name: 'math', collect: collectMath, enabled: false, entropy: 1.5, stability: 0.99 },
+  { name: 'intl', collect: collectIntl, enabled: false, entropy: 2, stability: 0.95 },
+];
+
+/**
+ * Registered collectors, keyed by name
+ */
+const collectors = new Map<string, FingerprintCollector>(
+  BUILT_IN_COLLECTORS.map(collector => [collector.name, collector])
+);
+
+/**
+ * Register a custom fingerprint collector, replacing any collector with the same name
+ * Custom collectors run by default; disable them with `fingerprint.collectors`
+ *
+ * @example
+ * registerFingerprintCollector({
+ *   name: 'pdfViewer',
+ *   collect: () => navigator.pdfViewerEnabled,
+ * });
+ */
+export function registerFingerprintCollector(collector: FingerprintCollector): void {
+  collectors.set(collector.name, collector);
+}
+
+/**
+ * Remove a fingerprint collector
+ * @returns true if a collector with that name was registered
+ */
+export function unregisterFingerprintCollector(name: string): boolean {
+  return collectors.delete(name);
+}
+
+/**
+ * Look up a registered collector by name
+ */
+export function getFingerprintCollector(name: string): FingerprintCollector | undefined {
+  return collectors.get(name);
+}
+
+/**
+ * Get the collectors that should run for the given options
+ */
+function getEnabledCollectors(options: FingerprintOptions): FingerprintCollector[] {
+  return Array.from(collectors.values()).filter(
+    collector => options.collectors?.[collector.name] ?? collector.enabled ?? true
+  );
+}
+
+/**
+ * Check if any collector would run for the given options
+ */
+export function hasEnabledCollectors(options: FingerprintOptions = {}): boolean {
+  return getEnabledCollectors(options).length > 0;
+}
+
+/**
+ * Run a collector, resolving with null (like an unsupported signal) if it throws or exceeds the timeout
+ */
+function runCollector(collector: FingerprintCollector, timeout: number): Promise<FingerprintValue> {
+  return new Promise(resolve => {
+    const timer = setTimeout(() => resolve(null), timeout);
+    const finish = (value: FingerprintValue | undefined) => {
+      clearTimeout(timer);
+      resolve(value ?? null);
+    };
+
+    Promise.resolve()
+      .then(() => collector.collect())
+      .then(finish, () => finish(null));
+  });
+}
+
+/**
+ * Run all enabled collectors concurrently, each limited by `collectorTimeout`
+ * @returns Collected signals keyed by collector name; failed and timed out collectors are null,
+ * so every enabled collector always has an entry
+ */
+export async function runFingerprintCollectors(
+  options: FingerprintOptions = {}
+): Promise<Record<string, FingerprintValue>> {
+  const timeout = options.collectorTimeout ?? DEFAULT_COLLECTOR_TIMEOUT;
+  const enabled = getEnabledCollectors(options);
+  const values = await Promise.all(enabled.map(collector => runCollector(collector, timeout)));
+
+  const results: Record<string, FingerprintValue> = {};
+  enabled.forEach((collector, i) => {
+    results[collector.name] = values[i];
+  });
+  return results;
+}
@@ -0,0 +1,49 @@
+import type { ConsentState } from '../types';
+import { getStorageKey } from './storage';
+
+/**
+ * Global Privacy Control and the legacy Do Not Track properties missing from the DOM typings
+ */
+type PrivacySignalNavigator = Navigator & { globalPrivacyControl?: boolean; msDoNotTrack?: string };
+type PrivacySignalWindow = Window & { doNotTrack?: string };
+
+/**
+ * Check whether the visitor sends Global Privacy Control or Do Not Track
+ */
+export function hasPrivacySignal(): boolean {
+  const nav: PrivacySignalNavigator = navigator;
+  const win: PrivacySignalWindow = window;
+
+  if (nav.globalPrivacyControl === true) return true;
+
+  const doNotTrack = nav.doNotTrack ?? win.doNotTrack ?? nav.msDoNotTrack;
+  return doNotTrack === '1' || doNotTrack === 'yes';
+}
+
+/**
+ * Load the visitor's stored consent choice
+ * Returns null if the visitor has not made a choice yet
+ */
+export function loadConsent(namespace?: string): ConsentState | null {
+  try {
+    const stored = localStorage.getItem(getStorageKey('consent', namespace));
+    if (!stored) return null;
+
+    const { analytics, fingerprinting, storage } = JSON.parse(stored);
+    return { analytics: !!analytics, fingerprinting: !!fingerprinting, storage: !!storage };
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Store the visitor's consent choice
+ * The choice itself is strictly necessary, so it is stored even when storage consent is denied
+ */
+export function saveConsent(consent: ConsentState, namespace?: string): void {
+  try {
+    localStorage.setItem(getStorageKey('consent', namespace), JSON.stringify(consent));
+  } catch (error) {
+    console.warn('[LocaleOS] Failed to save consent to localStorage:', error);
+  }
+}
@@ -1,88 +1,198 @@
-import type { DeviceInfo } from '../types';
+import type { AutomationResult, AutomationSignal, DeviceInfo } from '../types';
+import type { UserAgentDetails } from './user-agent';
+import { isBotUserAgent, parseUserAgentDetails } from './user-agent';
 
 /**
- * Detect browser name and version from user agent
+ * Brand entry from User-Agent Client Hints
  */
-function detectBrowser(userAgent: string): string {
-  const browsers = [
-    { name: 'Chrome', pattern: /Chrome\/(\d+)/ },
-    { name: 'Firefox', pattern: /Firefox\/(\d+)/ },
-    { name: 'Safari', pattern: /Version\/(\d+).*Safari/ },
-    { name: 'Edge', pattern: /Edg\/(\d+)/ },
-    { name: 'Opera', pattern: /OPR\/(\d+)/ },
-    { name: 'IE', pattern: /MSIE (\d+)/ },
-  ];
+interface UABrand {
+  brand: string;
+  version: string;
+}
 
-  for (const browser of browsers) {
-    const match = userAgent.match(browser.pattern);
-    if (match) {
-      return `${browser.name} ${match[1]}`;
-    }
-  }
+/**
+ * High entropy values from `navigator.userAgentData.getHighEntropyValues`
+ */
+interface UAHighEntropyValues {
+  architecture?: string;
+  bitness?: string;
+  model?: string;
+  platformVersion?: string;
+  fullVersionList?: UABrand[];
+}
+
+/**
+ * `navigator.userAgentData` (User-Agent Client Hints), available in Chromium-based browsers
+ */
+interface NavigatorUAData {
+  brands: UABrand[];
+  mobile: boolean;
+  platform: string;
+  getHighEntropyValues(hints: string[]): Promise<UAHighEntropyValues>;
+}
+
+/**
+ * Client Hints brand names mapped to the names used by the User-Agent parser
+ * Chromium is only used when no more specific brand is present
+ */
+const BRAND_NAMES: Record<string, string> = {
+  'Google Chrome': 'Chrome',
+  'Microsoft Edge': 'Edge',
+  Opera: 'Opera',
+  'Opera GX': 'Opera',
+  Brave: 'Brave',
+  'Samsung Internet': 'Samsung Internet',
+  YaBrowser: 'Yandex',
+  'Yandex Browser': 'Yandex',
+  Vivaldi: 'Vivaldi',
+  DuckDuckGo: 'DuckDuckGo',
+};
+
+/**
+ * Client Hints platform names mapped to the names used by the User-Agent parser
+ */
+const PLATFORM_NAMES: Record<string, string> = {
+  'Chrome OS': 'ChromeOS',
+  'Chromium OS': 'ChromeOS',
+};
+
+/**
+ * Get `navigator.userAgentData` when the browser supports Client Hints
+ */
+function getUAData(): NavigatorUAData | null {
+  if (typeof navigator === 'undefined') return null;
+  const data = (navigator as Navigator & { userAgentData?: NavigatorUAData }).userAgentData;
+  return data && Array.isArray(data.brands) ? data : null;
+}
+
+/**
+ * Pick the most specific browser brand, skipping GREASE entries such as "Not_A Brand"
+ */
+function pickBrand(brands: UABrand[]): { name: string; version: string } | null {
+  let chromium: UABrand | null = null;
 
-  return 'Unknown Browser';
-}
-
-/**
- * Detect operating system from user agent
- */
-function detectOS(userAgent: string): string {
-  const osList = [
-    { name: 'Windows 11', pattern: /Windows NT 10.0.*rv:11/ },
-    { name: 'Windows 10', pattern: /Windows NT 10.0/ },
-    { name: 'Windows 8.1', pattern: /Windows NT 6.3/ },
-    { name: 'Windows 8', pattern: /Windows NT 6.2/ },
-    { name: 'Windows 7', pattern: /Windows NT 6.1/ },
-    { name: 'macOS', pattern: /Mac OS X (\d+[._]\d+)/ },
-    { name: 'iOS', pattern: /iPhone OS (\d+[._]\d+)/ },
-    { name: 'iPad OS', pattern: /iPad.*OS (\d+[._]\d+)/ },
-    { name: 'Android', pattern: /Android (\d+)/ },
-    { name: 'Linux', pattern: /Linux/ },
-    { name: 'ChromeOS', pattern: /CrOS/ },
-  ];
-
-  for (const os of osList) {
-    const match = userAgent.match(os.pattern);
-    if (match) {
-      if (match[1]) {
-        const version = match[1].replace(/_/g, '.');
-        return `${os.name} ${version}`;
-      }
-      return os.name;
+  for (const entry of brands) {
+    if (/not.?a.?brand/i.test(entry.brand)) continue;
+    if (BRAND_NAMES[entry.brand]) {
+      return { name: BRAND_NAMES[entry.brand], version: entry.version };
     }
+    if (entry.brand === 'Chromium') chromium = entry;
   }
 
-  return 'Unknown OS';
+  return chromium ? { name: 'Chromium', version: chromium.version } : null;
 }
 
 /**
- * Detect device type
+ * Map a Client Hints platform version to an OS version
+ * Windows reports 13 and above for Windows 11 and 1-10 for Windows 10
  */
-function detectDeviceType(userAgent: string): string {
-  const mobilePattern = /Mobile|Android|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i;
-  const tabletPattern = /iPad|Android(?!.*Mobile)/i;
+function mapPlatformVersion(osName: string, platformVersion: string): string {
+  if (osName !== 'Windows') return platformVersion;
 
-  if (tabletPattern.test(userAgent)) {
-    return 'Tablet';
+  const major = parseInt(platformVersion, 10);
+  if (major >= 13) return '11';
+  if (major > 0) return '10';
+  return platformVersion;
+}
+
+/**
+ * Map Client Hints architecture and bitness to the parser's architecture names
+ */
+function mapArchitecture(architecture: string, bitness?: string): string {
+  const is64 = bitness === '64';
+  if (architecture === 'arm') return is64 ? 'arm64' : 'arm';
+  if (architecture === 'x86') return is64 ? 'x86_64' : 'x86';
+  return architecture;
+}
+
+/**
+ * Apply Client Hints on top of the User-Agent parser result
+ * Hints win where they are more precise (brand, Windows version, model, architecture)
+ */
+function applyClientHints(
+  details: UserAgentDetails,
+  uaData: NavigatorUAData,
+  highEntropy: UAHighEntropyValues = {}
+): UserAgentDetails {
+  const result = { ...details };
+
+  const brand = pickBrand(highEntropy.fullVersionList || uaData.brands);
+  // Keep the User-Agent result when it is more specific than a generic Chromium brand
+  if (brand && !(brand.name === 'Chromium' && result.browserName)) {
+    result.browserName = brand.name;
+    result.browserVersion = brand.version;
   }
 
-  if (mobilePattern.test(userAgent)) {
-    return 'Mobile';
+  if (uaData.platform) {
+    const osName = PLATFORM_NAMES[uaData.platform] || uaData.platform;
+    if (osName !== result.osName) {
+      result.osName = osName;
+      result.osVersion = null;
+    }
+  }
+  if (highEntropy.platformVersion && result.osName) {
+    result.osVersion = mapPlatformVersion(result.osName, highEntropy.platformVersion);
   }
 
-  return 'Desktop';
+  if (highEntropy.model) {
+    result.model = highEntropy.model;
+  }
+  if (highEntropy.architecture) {
+    result.architecture = mapArchitecture(highEntropy.architecture, highEntropy.bitness);
+  }
+  if (uaData.mobile && result.deviceType === 'Desktop') {
+    result.deviceType = 'Mobile';
+  }
+
+  return result;
 }
 
 /**
- * Get comprehensive device information
+ * Detect iPadOS 13+, which sends a macOS User-Agent by default
  */
-export function getDeviceInfo(): DeviceInfo {
-  const userAgent = navigator.userAgent;
+function applyIPadDesktopMode(details: UserAgentDetails): UserAgentDetails {
+  if (details.osName !== 'macOS' || typeof navigator === 'undefined' || !(navigator.maxTouchPoints > 1)) {
+    return details;
+  }
+
+  return {
+    ...details,
+    osName: 'iPadOS',
+    // Safari's version matches the iPadOS version; other browsers don't reveal it
+    osVersion: details.browserName === 'Safari' ? details.browserVersion : null,
+    deviceType: 'Tablet',
+    model: 'iPad',
+  };
+}
+
+/**
+ * Detect browser, OS and device details from the User-Agent and low entropy Client Hints
+ */
+function detectDevice(): UserAgentDetails {
+  const details = applyIPadDesktopMode(parseUserAgentDetails(navigator.userAgent));
+  const uaData = getUAData();
+  return uaData ? applyClientHints(details, uaData) : details;
+}
+
+/**
+ * Build DeviceInfo from detected details
+ */
+function toDeviceInfo(details: UserAgentDetails): DeviceInfo {
+  const major = details.browserVersion ? details.browserVersion.split('.')[0] : null;
 
   return {
-    browser: detectBrowser(userAgent),
-    os: detectOS(userAgent),
-    device: detectDeviceType(userAgent),
+    browser: details.browserName ? [details.browserName, major].filter(Boolean).join(' ') : 'Unknown Browser',
+    os: details.osName ? [details.osName, details.osVersion].filter(Boolean).join(' ') : 'Unknown OS',
+    device: details.deviceType,
+    browserName: details.browserName,
+    browserVersion: details.browserVersion,
+    engine: details.engine,
+    engineVersion: details.engineVersion,
+    osName: details.osName,
+    osVersion: details.osVersion,
+    architecture: details.architecture,
+    model: details.model,
+    webview: details.webview,
     screen: {
       width: screen.width,
       height: screen.height,
@@ -94,6 +204,140 @@ export function getDeviceInfo(): DeviceInfo {
   };
 }
 
+/**
+ * Get comprehensive device information
+ * Uses the User-Agent and low entropy Client Hints; see getDetailedDeviceInfo for full Client Hints
+ */
+export function getDeviceInfo(): DeviceInfo {
+  return toDeviceInfo(detectDevice());
+}
+
+/**
+ * Get device information including high entropy Client Hints
+ * Adds the exact browser version, Windows 10/11, OS version, device model and architecture
+ * in Chromium-based browsers; elsewhere it resolves with the same result as getDeviceInfo
+ */
+export async function getDetailedDeviceInfo(): Promise<DeviceInfo> {
+  const uaData = getUAData();
+  const details = applyIPadDesktopMode(parseUserAgentDetails(navigator.userAgent));
+  if (!uaData) return toDeviceInfo(details);
+
+  try {
+    const highEntropy = await uaData.getHighEntropyValues([
+      'architecture',
+      'bitness',
+      'model',
+      'platformVersion',
+      'fullVersionList',
+    ]);
+    return toDeviceInfo(applyClientHints(details, uaData, highEntropy));
+  } catch (e) {
+    return toDeviceInfo(applyClientHints(details, uaData));
+  }
+}
+
+const DEFAULT_AUTOMATION_THRESHOLD = 0.5;
+
+/**
+ * Weight of each automation signal
+ * Definitive markers weigh 1; signals that also occur in privacy-hardened browsers weigh less,
+ * low enough that all of them together score 0.417 and never reach the default threshold
+ * without a definitive marker
+ */
+const AUTOMATION_WEIGHTS: Record<AutomationSignal, number> = {
+  webdriver: 1,
+  headless_user_agent: 1,
+  crawler_user_agent: 1,
+  automation_globals: 1,
+  no_languages: 0.2,
+  platform_mismatch: 0.15,
+  no_plugins: 0.05,
+  missing_chrome_object: 0.05,
+  zero_window_size: 0.05,
+};
+
+/**
+ * `window.chrome`, exposed by Chromium-based browsers
+ */
+type AutomationWindow = Window & { chrome?: unknown };
+
+/**
+ * Globals injected by PhantomJS, Nightmare, Selenium and ChromeDriver
+ */
+const AUTOMATION_GLOBALS = [
+  '_phantom',
+  'callPhantom',
+  '__nightmare',
+  'domAutomation',
+  'domAutomationController',
+  '_selenium',
+  '__webdriver_script_fn',
+  '__selenium_unwrapped',
+  '__fxdriver_unwrapped',
+];
+
+/**
+ * Check for globals left behind by automation frameworks
+ */
+function hasAutomationGlobals(): boolean {
+  if (AUTOMATION_GLOBALS.some(name => name in window)) return true;
+
+  // ChromeDriver adds `$cdc_...` properties to document
+  return Object.keys(document).some(key => key.startsWith('$cdc_') || key.startsWith('$wdc_'));
+}
+
+/**
+ * Check if the User-Agent OS disagrees with navigator.platform
+ */
+function hasPlatformMismatch(osName: string | null): boolean {
+  const platform = navigator.platform || '';
+  if (!platform || !osName) return false;
+
+  if (osName === 'Windows') return !/^Win/i.test(platform);
+  if (osName === 'macOS') return !/^Mac/i.test(platform);
+  if (osName === 'iOS' || osName === 'iPadOS') return !/^(?:iPhone|iPad|iPod|Mac)/i.test(platform);
+  if (osName === 'Android' || osName === 'Linux') return /^(?:Win|Mac|iPhone|iPad)/i.test(platform);
+  return false;
+}
+
+/**
+ * Detect bots, crawlers and headless or automated browsers
+ * Combines navigator.webdriver, User-Agent markers, automation globals and inconsistent browser signals
+ * into a score; this is a heuristic and can be evaded by determined automation
+ *
+ * @example
+ * const { isBot, score, reasons } = detectAutomation();
+ * // { isBot: true, score: 1, reasons: ['webdriver', 'headless_user_agent'] }
+ */
+export function detectAutomation(threshold: number = DEFAULT_AUTOMATION_THRESHOLD): AutomationResult {
+  const userAgent = navigator.userAgent || '';
+  const details = parseUserAgentDetails(userAgent);
+  const reasons: AutomationSignal[] = [];
+
+  if (navigator.webdriver) reasons.push('webdriver');
+  if (/HeadlessChrome|PhantomJS|SlimerJS/i.test(userAgent)) {
+    reasons.push('headless_user_agent');
+  } else if (isBotUserAgent(userAgent)) {
+    reasons.push('crawler_user_agent');
+  }
+  if (hasAutomationGlobals()) reasons.push('automation_globals');
+  if (!navigator.languages || navigator.languages.length === 0) reasons.push('no_languages');
+
+  // Desktop Chromium always exposes the built-in PDF viewer plugins and window.chrome
+  const desktopChromium = details.engine === 'Blink' && details.deviceType === 'Desktop' && !details.webview;
+  if (desktopChromium && navigator.plugins && navigator.plugins.length === 0) reasons.push('no_plugins');
+  if (desktopChromium && !(window as AutomationWindow).chrome) reasons.push('missing_chrome_object');
+
+  if (hasPlatformMismatch(details.osName)) reasons.push('platform_mismatch');
+  if (window.outerWidth === 0 && window.outerHeight === 0) reasons.push('zero_window_size');
+
+  // Combine independent signals: 1 - product of (1 - weight)
+  const score = 1 - reasons.reduce((remaining, reason) => remaining * (1 - AUTOMATION_WEIGHTS[reason]), 1);
+  const rounded = Math.round(score * 1000) / 1000;
+
+  return { isBot: rounded >= threshold, score: rounded, reasons };
+}
+
 /**
  * Check if the environment is a browser
  */
@@ -106,7 +350,7 @@ export function isBrowser(): boolean {
  */
 export function isMobile(): boolean {
   if (!isBrowser()) return false;
-  return detectDeviceType(navigator.userAgent) === 'Mobile';
+  return detectDevice().deviceType === 'Mobile';
 }
 
 /**
@@ -114,7 +358,7 @@ export function isMobile(): boolean {
  */
 export function isTablet(): boolean {
   if (!isBrowser()) return false;
-  return detectDeviceType(navigator.userAgent) === 'Tablet';
+  return detectDevice().deviceType === 'Tablet';
 }
 
 /**
@@ -122,5 +366,5 @@ export function isTablet(): boolean {
  */
 export function isDesktop(): boolean {
   if (!isBrowser()) return false;
-  return detectDeviceType(navigator.userAgent) === 'Desktop';
+  return detectDevice().deviceType === 'Desktop';
 }
@@ -1,4 +1,13 @@
-import type { FingerprintComponents } from '../types';
+import type {
+  FingerprintComparison,
+  FingerprintComponents,
+  FingerprintComponentScore,
+  FingerprintConfidence,
+  FingerprintOptions,
+} from '../types';
+import { sha256, sha256Async } from './hash';
+import { getFingerprintCollector, runFingerprintCollectors } from './collectors';
+import { getStorageKey } from './storage';
 
 /**
  * Generate a hash from a string using a simple hash algorithm
@@ -105,13 +114,67 @@ export function collectFingerprintComponents(): FingerprintComponents {
 }
 
 /**
- * Generate a unique fingerprint from components
+ * Collect all fingerprint components, including signals from enabled collectors
+ * Each collector is limited by `options.collectorTimeout`
  */
-export function generateFingerprint(components?: FingerprintComponents): string {
-  const data = components || collectFingerprintComponents();
+export async function collectFingerprintComponentsAsync(
+  options: FingerprintOptions = {}
+): Promise<FingerprintComponents> {
+  const components = collectFingerprintComponents();
+  const extended = await runFingerprintCollectors(options);
 
-  // Create a string from all components
-  const fingerprintString = [
+  if (Object.keys(extended).length > 0) {
+    components.extended = extended;
+  }
+  return components;
+}
+
+/**
+ * Estimated entropy (bits) and stability of each fingerprint component
+ * Stability is the estimated probability that the component is unchanged after a few months
+ * Values are approximations based on published browser fingerprinting studies
+ */
+const COMPONENT_WEIGHTS: Record<
+  Exclude<keyof FingerprintComponents, 'extended'>,
+  { entropy: number; stability: number }
+> = {
+  userAgent: { entropy: 10, stability: 0.6 },
+  canvas: { entropy: 8.3, stability: 0.85 },
+  webgl: { entropy: 7, stability: 0.9 },
+  screenResolution: { entropy: 4.8, stability: 0.9 },
+  timezone: { entropy: 3, stability: 0.95 },
+  language: { entropy: 2.3, stability: 0.95 },
+  plugins: { entropy: 2, stability: 0.8 },
+  availableScreenResolution: { entropy: 2, stability: 0.75 },
+  platform: { entropy: 2, stability: 0.99 },
+  hardwareConcurrency: { entropy: 1.6, stability: 0.99 },
+  deviceMemory: { entropy: 1.2, stability: 0.99 },
+  timezoneOffset: { entropy: 1, stability: 0.85 },
+  colorDepth: { entropy: 0.6, stability: 0.98 },
+  sessionStorage: { entropy: 0.1, stability: 0.99 },
+  localStorage: { entropy: 0.1, stability: 0.99 },
+  indexedDb: { entropy: 0.1, stability: 0.99 },
+};
+
+/**
+ * Entropy needed to single out one browser among all internet users (~8 billion)
+ */
+const TARGET_ENTROPY = 33;
+
+const DEFAULT_COLLECTOR_ENTROPY = 1;
+const DEFAULT_COLLECTOR_STABILITY = 0.9;
+
+/**
+ * Values longer than this are replaced by a hash when comparing and storing components
+ */
+const MAX_STORED_VALUE_LENGTH = 256;
+
+/**
+ * Serialize components into the string that is hashed
+ * Large values (canvas, WebGL, extended signals) are passed through `hashLarge` first
+ */
+function serializeComponents(data: FingerprintComponents, hashLarge: (value: string) => string): string {
+  const parts = [
     data.userAgent,
     data.language,
     data.colorDepth,
@@ -126,9 +189,37 @@ export function generateFingerprint(components?: FingerprintComponents): string
     data.indexedDb,
     data.platform,
     data.plugins,
-    simpleHash(data.canvas || ''),
-    simpleHash(data.webgl || ''),
-  ].join('|');
+    hashLarge(data.canvas || ''),
+    hashLarge(data.webgl || ''),
+  ];
+
+  // Extended signals are appended in name order; failed collectors are null, never missing
+  if (data.extended) {
+    for (const name of Object.keys(data.extended).sort()) {
+      parts.push(`${name}=${hashLarge(String(data.extended[name]))}`);
+    }
+  }
+
+  return parts.join('|');
+}
+
+/**
+ * Generate a unique fingerprint from components
+ * By default a timestamp is appended so two identical devices get different IDs;
+ * with `deterministic: true` the same components always produce the same SHA-256 based ID
+ */
+export function generateFingerprint(
+  components?: FingerprintComponents,
+  options: FingerprintOptions = {}
+): string {
+  const data = components || collectFingerprintComponents();
+
+  if (options.deterministic) {
+    return `fp_${sha256(serializeComponents(data, value => value)).slice(0, 32)}`;
+  }
+
+  // Create a string from all components
+  const fingerprintString = serializeComponents(data, simpleHash);
 
   // Generate hash
   const hash = simpleHash(fingerprintString);
@@ -136,25 +227,210 @@ export function generateFingerprint(components?: FingerprintComponents): string
   return `fp_${hash}_${Date.now().toString(36)}`;
 }
 
+/**
+ * Generate a deterministic fingerprint using SubtleCrypto SHA-256
+ * Produces the same ID as `generateFingerprint(components, { deterministic: true })`
+ * without blocking the main thread on the hash
+ */
+export async function generateStableFingerprint(components?: FingerprintComponents): Promise<string> {
+  const data = components || collectFingerprintComponents();
+  const hash = await sha256Async(serializeComponents(data, value => value));
+  return `fp_${hash.slice(0, 32)}`;
+}
+
+/**
+ * Score how reliable a fingerprint built from these components is
+ * `uniqueness` estimates how well the components single out one browser,
+ * `stability` estimates the probability that none of them changes after a few months,
+ * and `score` combines both
+ */
+export function getFingerprintConfidence(components?: FingerprintComponents): FingerprintConfidence {
+  const data = components || collectFingerprintComponents();
+
+  const scores: FingerprintComponentScore[] = (
+    Object.keys(COMPONENT_WEIGHTS) as Array<keyof typeof COMPONENT_WEIGHTS>
+  ).map(name => {
+    const value = data[name];
+    const present = value !== undefined && value !== null && value !== '';
+    return { name, present, ...COMPONENT_WEIGHTS[name] };
+  });
+
+  for (const [name, value] of Object.entries(data.extended || {})) {
+    const collector = getFingerprintCollector(name);
+    scores.push({
+      name,
+      present: value !== null && value !== '',
+      entropy: collector?.entropy ?? DEFAULT_COLLECTOR_ENTROPY,
+      stability: collector?.stability ?? DEFAULT_COLLECTOR_STABILITY,
+    });
+  }
+
+  const present = scores.filter(component => component.present);
+  const entropy = present.reduce((total, component) => total + component.entropy, 0);
+  const stability = present.reduce((total, component) => total * component.stability, 1);
+  const uniqueness = Math.min(1, entropy / TARGET_ENTROPY);
+
+  return {
+    score: Math.round(uniqueness * stability * 1000) / 1000,
+    uniqueness: Math.round(uniqueness * 1000) / 1000,
+    stability: Math.round(stability * 1000) / 1000,
+    entropy: Math.round(entropy * 10) / 10,
+    components: scores,
+  };
+}
+
+/**
+ * Get the entropy weight of a component or collector signal
+ */
+function getComponentEntropy(name: string): number {
+  if (name in COMPONENT_WEIGHTS) {
+    return COMPONENT_WEIGHTS[name as keyof typeof COMPONENT_WEIGHTS].entropy;
+  }
+  return getFingerprintCollector(name)?.entropy ?? DEFAULT_COLLECTOR_ENTROPY;
+}
+
+/**
+ * Flatten components into one record, replacing long values (canvas data URLs etc.) with a hash
+ * Applying this to already compacted components leaves them unchanged
+ */
+function compactComponents(data: FingerprintComponents): Record<string, unknown> {
+  const { extended, ...base } = data;
+  const flat: Record<string, unknown> = { ...base, ...extended };
+
+  for (const [name, value] of Object.entries(flat)) {
+    if (typeof value === 'string' && value.length > MAX_STORED_VALUE_LENGTH) {
+      flat[name] = `sha256:${sha256(value).slice(0, 32)}`;
+    }
+  }
+  return flat;
+}
+
+/**
+ * Compare two sets of fingerprint components
+ * Each component is weighted by its estimated entropy, so a changed user agent
+ * counts for more than a changed color depth
+ *
+ * @example
+ * const { similarity, changed } = compareFingerprints(before, after);
+ * // similarity: 0.77, changed: ['userAgent']
+ */
+export function compareFingerprints(a: FingerprintComponents, b: FingerprintComponents): FingerprintComparison {
+  const left = compactComponents(a);
+  const right = compactComponents(b);
+  const names = Array.from(new Set([...Object.keys(left), ...Object.keys(right)]));
+
+  let total = 0;
+  let matched = 0;
+  const changed: string[] = [];
+  const unchanged: string[] = [];
+
+  for (const name of names) {
+    const weight = getComponentEntropy(name);
+    total += weight;
+
+    if (left[name] === right[name]) {
+      matched += weight;
+      unchanged.push(name);
+    } else {
+      changed.push(name);
+    }
+  }
+
+  return {
+    similarity: total > 0 ? Math.round((matched / total) * 1000) / 1000 : 1,
+    changed,
+    unchanged,
+  };
+}
+
+/**
+ * Read the components stored alongside the persistent fingerprint
+ */
+function loadStoredComponents(namespace?: string): FingerprintComponents | null {
+  try {
+    const stored = localStorage.getItem(getStorageKey('fingerprint_components', namespace));
+    return stored ? JSON.parse(stored) : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Store compacted components alongside the persistent fingerprint
+ */
+function saveStoredComponents(data: FingerprintComponents, namespace?: string): void {
+  try {
+    localStorage.setItem(getStorageKey('fingerprint_components', namespace), JSON.stringify(compactComponents(data)));
+  } catch (e) {
+    // localStorage not available or full - fuzzy matching falls back to keeping the ID
+  }
+}
+
+/**
+ * Compare the current components with the ones stored alongside the persistent fingerprint
+ * @param namespace - Storage namespace of the client (optional)
+ * @returns Comparison result, or null if no components have been stored
+ */
+export function getFingerprintDrift(
+  components?: FingerprintComponents,
+  namespace?: string
+): FingerprintComparison | null {
+  const stored = loadStoredComponents(namespace);
+  if (!stored) return null;
+  return compareFingerprints(stored, components || collectFingerprintComponents());
+}
+
 /**
  * Get or create a persistent fingerprint (stored in localStorage)
+ * With `matchThreshold` the stored ID is only kept while the components stay similar enough
+ * @param namespace - Storage namespace of the client (optional)
  */
-export function getPersistentFingerprint(): string {
-  const STORAGE_KEY = 'localeos_fingerprint';
+export function getPersistentFingerprint(
+  options: FingerprintOptions = {},
+  components?: FingerprintComponents,
+  namespace?: string
+): string {
+  const storageKey = getStorageKey('fingerprint', namespace);
 
   try {
     // Try to get existing fingerprint
-    const existing = localStorage.getItem(STORAGE_KEY);
-    if (existing) {
+    const existing = localStorage.getItem(storageKey);
+    const { matchThreshold } = options;
+    if (existing && matchThreshold === undefined) {
       return existing;
     }
 
+    const data = components || collectFingerprintComponents();
+
+    if (existing && matchThreshold !== undefined) {
+      // Keep the ID on a close match and store the new components so gradual drift is followed
+      const stored = loadStoredComponents(namespace);
+      if (!stored || compareFingerprints(stored, data).similarity >= matchThreshold) {
+        saveStoredComponents(data, namespace);
+        return existing;
+      }
+    }
+
     // Generate new fingerprint
-    const newFingerprint = generateFingerprint();
-    localStorage.setItem(STORAGE_KEY, newFingerprint);
+    const newFingerprint = generateFingerprint(data, options);
+    localStorage.setItem(storageKey, newFingerprint);
+    saveStoredComponents(data, namespace);
     return newFingerprint;
   } catch (e) {
     // If localStorage is not available, generate a session-based fingerprint
-    return generateFingerprint();
+    return generateFingerprint(components, options);
+  }
+}
+
+/**
+ * Remove the persistent fingerprint and its stored components from localStorage
+ * @param namespace - Storage namespace of the client (optional)
+ */
+export function clearPersistentFingerprint(namespace?: string): void {
+  try {
+    localStorage.removeItem(getStorageKey('fingerprint', namespace));
+    localStorage.removeItem(getStorageKey('fingerprint_components', namespace));
+  } catch (e) {
+    // localStorage not available - nothing to remove
   }
 }
@@ -0,0 +1,202 @@
+import type {
+  ComprehensiveIPData,
+  GeoCondition,
+  GeoPrivacyFlag,
+  GeoRule,
+  GeoRuleInput,
+  LocationInfo,
+} from '../types';
+import { InvalidInputError } from '../errors';
+import { isInCIDR } from './cidr';
+
+/**
+ * EU member states, used when the data has no `is_eu` flag (e.g. LocationInfo)
+ */
+const EU_COUNTRIES = new Set(
+  'AT BE BG HR CY CZ DK EE FI FR DE GR HU IE IT LV LT LU MT NL PL PT RO SK SI ES SE'.split(' ')
+);
+
+const CONDITION_KEYS = new Set<keyof GeoCondition>([
+  'country',
+  'continent',
+  'eu',
+  'region',
+  'city',
+  'asn',
+  'cidr',
+  'privacy',
+  'device',
+  'all',
+  'any',
+  'not',
+]);
+
+/**
+ * Location facts that conditions are evaluated against
+ */
+interface GeoFacts {
+  ip: string | null;
+  country: string | null;
+  continent: string | null;
+  eu: boolean | null;
+  regions: string[];
+  city: string | null;
+  asn: string | null;
+  privacy: Set<GeoPrivacyFlag>;
+  device: string | null;
+}
+
+/**
+ * Wrap a single value in an array
+ */
+function toArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Normalise an ASN such as 15169, "15169" or "as15169" to "AS15169"
+ */
+function normalizeASN(value: string | number): string {
+  return `AS${String(value).trim().replace(/^AS/i, '')}`;
+}
+
+/**
+ * Case-insensitive membership check
+ */
+function includesIgnoreCase(list: Array<string | number>, value: string | null): boolean {
+  if (!value) return false;
+  const needle = value.toLowerCase();
+  return list.some(item => String(item).toLowerCase() === needle);
+}
+
+/**
+ * Extract location facts from LocationInfo or ComprehensiveIPData
+ */
+function getFacts(data: GeoRuleInput): GeoFacts {
+  const ipData = data as Partial<ComprehensiveIPData>;
+  const location = data as Partial<LocationInfo>;
+
+  const country = (ipData.country_code || location.countryCode || '').toUpperCase() || null;
+
+  const privacy = new Set<GeoPrivacyFlag>();
+  if (ipData.privacy) {
+    for (const flag of ['vpn', 'proxy', 'tor', 'relay', 'hosting'] as GeoPrivacyFlag[]) {
+      if (ipData.privacy[flag]) privacy.add(flag);
+    }
+  }
+  if (ipData.security?.is_tor || ipData.security?.is_tor_exit) privacy.add('tor');
+  if (ipData.asn?.type === 'hosting') privacy.add('hosting');
+
+  const server = ipData.device || location.deviceInfo?.server;
+  const client = location.deviceInfo?.client;
+  let device: string | null = null;
+  if (server?.is_bot) device = 'bot';
+  else if (server?.type) device = server.type;
+  else if (client?.device) device = client.device;
+
+  return {
+    ip: data.ip || null,
+    country,
+    continent: ipData.continent_code || null,
+    eu: typeof ipData.is_eu === 'boolean' ? ipData.is_eu : country ? EU_COUNTRIES.has(country) : null,
+    regions: [ipData.region, ipData.region_code, location.region].filter((region): region is string => !!region),
+    city: data.city || null,
+    asn: ipData.asn?.asn ? normalizeASN(ipData.asn.asn) : null,
+    privacy,
+    device: device ? device.toLowerCase() : null,
+  };
+}
+
+/**
+ * Check a condition and its nested conditions up front, so an unknown key fails even in a branch
+ * that evaluation would skip
+ * @throws InvalidInputError if a condition is not an object, contains an unknown key,
+ * or `all`/`any` is not an array
+ */
+function assertValidCondition(condition: GeoCondition): void {
+  if (!condition || typeof condition !== 'object' || Array.isArray(condition)) {
+    throw new InvalidInputError('Geo rule condition must be an object');
+  }
+
+  for (const key of Object.keys(condition)) {
+    if (!CONDITION_KEYS.has(key as keyof GeoCondition)) {
+      throw new InvalidInputError(`Unknown geo rule condition: ${key}`);
+    }
+  }
+
+  for (const key of ['all', 'any'] as const) {
+    const children = condition[key];
+    if (children === undefined) continue;
+    if (!Array.isArray(children)) {
+      throw new InvalidInputError(`Geo rule condition "${key}" must be an array`);
+    }
+    children.forEach(assertValidCondition);
+  }
+  if (condition.not !== undefined) assertValidCondition(condition.not);
+}
+
+/**
+ * Evaluate a validated condition against extracted facts
+ * Every key present in the condition must match; an empty condition always matches
+ */
+function evaluate(condition: GeoCondition, facts: GeoFacts): boolean {
+  const { country, continent, eu, region, city, asn, cidr, privacy, device, all, any, not } = condition;
+  const { ip } = facts;
+
+  if (country !== undefined && !includesIgnoreCase(toArray(country), facts.country)) return false;
+  if (continent !== undefined && !includesIgnoreCase(toArray(continent), facts.continent)) return false;
+  if (eu !== undefined && facts.eu !== eu) return false;
+  if (region !== undefined && !facts.regions.some(name => includesIgnoreCase(toArray(region), name))) return false;
+  if (city !== undefined && !includesIgnoreCase(toArray(city), facts.city)) return false;
+  if (asn !== undefined && (facts.asn === null || !toArray(asn).map(normalizeASN).includes(facts.asn))) return false;
+  if (cidr !== undefined && (ip === null || !toArray(cidr).some(block => isInCIDR(ip, block)))) return false;
+  if (privacy !== undefined && !toArray(privacy).some(flag => facts.privacy.has(flag))) return false;
+  if (device !== undefined && !includesIgnoreCase(toArray(device), facts.device)) return false;
+  if (all !== undefined && !all.every(child => evaluate(child, facts))) return false;
+  if (any !== undefined && !any.some(child => evaluate(child, facts))) return false;
+  if (not !== undefined && evaluate(not, facts)) return false;
+
+  return true;
+}
+
+/**
+ * Check if location data matches a geo condition
+ * Conditions on fields missing from the data (e.g. `asn` with LocationInfo) do not match
+ * @throws InvalidInputError if the condition contains an unknown key
+ *
+ * @example
+ * matchesGeoCondition({ eu: true, not: { country: 'DE' } }, await LocaleOS.getComprehensiveData());
+ */
+export function matchesGeoCondition(condition: GeoCondition, data: GeoRuleInput): boolean {
+  assertValidCondition(condition);
+  return evaluate(condition, getFacts(data));
+}
+
+/**
+ * Find the first rule whose condition matches and return its variant
+ * Rules are checked in order; a final rule with `when: {}` acts as the default
+ * @returns The matching variant, or null if no rule matches
+ * @throws InvalidInputError if any rule's condition contains an unknown key, checked before matching
+ *
+ * @example
+ * const pricing = evaluateGeoRules(
+ *   [
+ *     { when: { country: ['US', 'CA'] }, variant: 'north-america' },
+ *     { when: { eu: true }, variant: 'eu' },
+ *     { when: {}, variant: 'global' },
+ *   ],
+ *   locationData
+ * );
+ */
+export function evaluateGeoRules<V>(rules: GeoRule<V>[], data: GeoRuleInput): V | null {
+  rules.forEach(rule => assertValidCondition(rule.when));
+  const facts = getFacts(data);
+
+  for (const rule of rules) {
+    if (evaluate(rule.when, facts)) {
+      return rule.variant;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,337 @@
+import type { CircuitBreakerConfig, RequestOptions, RetryConfig } from '../types';
+import type { Credentials } from './auth';
+import {
+  AbortError,
+  AuthenticationError,
+  CircuitOpenError,
+  createErrorFromResponse,
+  LocaleOSError,
+  NetworkError,
+  ParseError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  toLocaleOSError,
+} from '../errors';
+
+/**
+ * Fetch a JSON resource, raising a typed LocaleOSError on failure
+ * @throws NetworkError if the request could not be sent
+ * @throws ParseError if the response body is not valid JSON
+ * @throws AuthenticationError, RateLimitError, InvalidInputError or ServerError for error responses
+ */
+export async function fetchJSON<T>(
+  fetchFn: typeof fetch,
+  url: string,
+  init?: RequestInit
+): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetchFn(url, init);
+  } catch (error) {
+    throw new NetworkError('Unable to reach the LocaleOS API', error);
+  }
+
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch (error) {
+    if (!response.ok) throw createErrorFromResponse(response);
+    throw new ParseError('Failed to parse API response', error);
+  }
+
+  if (!response.ok) {
+    throw createErrorFromResponse(response, body);
+  }
+
+  // The body is trusted to match T once the response succeeded; callers map it to their own types
+  return body as T;
+}
+
+const DEFAULT_TIMEOUT = 10 * 1000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_BASE_DELAY = 300;
+const DEFAULT_MAX_DELAY = 5 * 1000;
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_COOLDOWN = 30 * 1000;
+
+/**
+ * Settings shared by the browser and server clients
+ */
+export interface HttpConfig {
+  timeout?: number;
+  retry?: boolean | RetryConfig;
+  circuitBreaker?: boolean | CircuitBreakerConfig;
+}
+
+/**
+ * Options for a single request
+ * `signal` cancels the request and its retries; `timeout` applies to each attempt
+ */
+export interface HttpRequestOptions extends RequestOptions {
+  /**
+   * Whether the request may be retried, defaults to true
+   * Disable for requests that are not safe to repeat, such as tracked events
+   */
+  retry?: boolean;
+
+  /**
+   * Whether to send the client's credentials, defaults to true
+   * Disable for endpoints outside the LocaleOS API, such as a custom IP detection endpoint
+   */
+  auth?: boolean;
+}
+
+/**
+ * Get the error to throw for an aborted signal
+ */
+export function getAbortError(signal: AbortSignal): LocaleOSError {
+  return signal.reason instanceof LocaleOSError ? signal.reason : new AbortError('Request was aborted', signal.reason);
+}
+
+/**
+ * Combine an optional caller signal with a timeout into one signal
+ * The signal is aborted with an AbortError or TimeoutError as its reason
+ * Call `clear` once the request settles to stop the timer
+ */
+export function createRequestSignal(
+  options: RequestOptions = {},
+  defaultTimeout: number = DEFAULT_TIMEOUT
+): { signal: AbortSignal; clear: () => void } {
+  const controller = new AbortController();
+  const timeout = options.timeout ?? defaultTimeout;
+  const { signal } = options;
+
+  const onAbort = () => {
+    if (signal) controller.abort(getAbortError(signal));
+  };
+  if (signal?.aborted) onAbort();
+  else signal?.addEventListener('abort', onAbort);
+
+  const timer =
+    timeout > 0
+      ? setTimeout(() => controller.abort(new TimeoutError(`Request timed out after ${timeout}ms`)), timeout)
+      : null;
+
+  return {
+    signal: controller.signal,
+    clear: () => {
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * Wait for a delay, rejecting early when the signal is aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(getAbortError(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(getAbortError(signal as AbortSignal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort);
+  });
+}
+
+/**
+ * Check if a failed request is worth retrying and counts towards the circuit breaker
+ * Network errors, timeouts, 5xx and 429 responses are transient; 402 means the quota is used up
+ */
+function isTransientError(error: LocaleOSError): boolean {
+  if (error instanceof RateLimitError) return error.status === 429;
+  return error instanceof NetworkError || error instanceof TimeoutError || error instanceof ServerError;
+}
+
+/**
+ * Stops requests after repeated failures
+ * Closed: requests pass. Open: requests fail fast until the cooldown ends.
+ * Half-open: one trial request passes; its outcome closes or re-opens the circuit
+ */
+class CircuitBreaker {
+  private failures = 0;
+  private openUntil = 0;
+  private trialRunning = false;
+
+  constructor(private threshold: number, private cooldown: number) {}
+
+  /**
+   * Check if a request may be sent
+   * @throws CircuitOpenError while the circuit is open or a trial request is running
+   */
+  public acquire(): void {
+    if (this.failures < this.threshold) return;
+
+    const remaining = this.openUntil - Date.now();
+    if (remaining > 0 || this.trialRunning) {
+      throw new CircuitOpenError(
+        'LocaleOS API is unavailable after repeated failures, requests are paused',
+        Math.max(0, Math.ceil(remaining / 1000))
+      );
+    }
+    this.trialRunning = true;
+  }
+
+  public success(): void {
+    this.failures = 0;
+    this.trialRunning = false;
+  }
+
+  public failure(): void {
+    this.failures++;
+    this.trialRunning = false;
+
+    if (this.failures >= this.threshold) {
+      this.openUntil = Date.now() + this.cooldown;
+      console.warn(
+        `[LocaleOS] API failed ${this.failures} times in a row, pausing requests for ${this.cooldown / 1000}s`
+      );
+    }
+  }
+
+  /**
+   * Release a trial request that ended without a verdict (e.g. aborted or rejected as invalid)
+   */
+  public release(): void {
+    this.trialRunning = false;
+  }
+}
+
+/**
+ * JSON client used for every API call
+ * Adds retries with jittered exponential backoff, Retry-After handling,
+ * cancellation and a circuit breaker on top of fetchJSON
+ */
+export class HttpClient {
+  private timeout = DEFAULT_TIMEOUT;
+  private retries = DEFAULT_RETRIES;
+  private baseDelay = DEFAULT_BASE_DELAY;
+  private maxDelay = DEFAULT_MAX_DELAY;
+  private breaker: CircuitBreaker | null = null;
+  private credentials: Credentials | null = null;
+
+  constructor(private fetchFn: typeof fetch, config: HttpConfig = {}) {
+    this.configure(config);
+  }
+
+  /**
+   * Set the credentials sent with every authenticated request
+   */
+  public authenticate(credentials: Credentials | null): void {
+    this.credentials = credentials;
+  }
+
+  /**
+   * Apply timeout, retry and circuit breaker settings
+   */
+  public configure(config: HttpConfig): void {
+    this.timeout = config.timeout ?? DEFAULT_TIMEOUT;
+
+    const retry = config.retry === false ? { retries: 0 } : config.retry === true ? {} : config.retry || {};
+    this.retries = Math.max(0, retry.retries ?? DEFAULT_RETRIES);
+    this.baseDelay = retry.baseDelay ?? DEFAULT_BASE_DELAY;
+    this.maxDelay = retry.maxDelay ?? DEFAULT_MAX_DELAY;
+
+    if (config.circuitBreaker === false) {
+      this.breaker = null;
+    } else {
+      const breaker = config.circuitBreaker === true ? {} : config.circuitBreaker || {};
+      this.breaker = new CircuitBreaker(
+        Math.max(1, breaker.threshold ?? DEFAULT_FAILURE_THRESHOLD),
+        breaker.cooldown ?? DEFAULT_COOLDOWN
+      );
+    }
+  }
+
+  /**
+   * Create the signal for a call, applying the configured timeout unless the call overrides it
+   */
+  public createSignal(options: RequestOptions = {}): { signal: AbortSignal; clear: () => void } {
+    return createRequestSignal(options, this.timeout);
+  }
+
+  /**
+   * Request a JSON resource
+   * Each attempt gets its own timeout, so a timed out attempt is retried like a network error
+   * @throws AbortError when the signal is aborted
+   * @throws TimeoutError when the last attempt timed out
+   * @throws CircuitOpenError while the circuit breaker is open
+   * @throws AuthenticationError if no token can be obtained or a fresh token is rejected
+   * @throws The last LocaleOSError once retries are exhausted
+   */
+  public async request<T>(url: string, init: RequestInit = {}, options: HttpRequestOptions = {}): Promise<T> {
+    const { signal } = options;
+    const retries = options.retry === false ? 0 : this.retries;
+    const credentials = options.auth === false ? null : this.credentials;
+    let tokenRefreshed = false;
+
+    for (let attempt = 0; ; attempt++) {
+      if (signal?.aborted) throw getAbortError(signal);
+      const authHeaders = credentials ? await credentials.getHeaders() : {};
+      if (signal?.aborted) throw getAbortError(signal);
+      this.breaker?.acquire();
+
+      let error: LocaleOSError;
+      const request = this.createSignal(options);
+      try {
+        const headers = { ...(init.headers as Record<string, string> | undefined), ...authHeaders };
+        const data = await fetchJSON<T>(this.fetchFn, url, { ...init, headers, signal: request.signal });
+        this.breaker?.success();
+        return data;
+      } catch (e) {
+        // The attempt signal is aborted with an AbortError from the caller or a TimeoutError
+        error = request.signal.aborted ? getAbortError(request.signal) : toLocaleOSError(e);
+      } finally {
+        request.clear();
+      }
+
+      // An expired or revoked token is replaced once, without counting as an attempt
+      if (error instanceof AuthenticationError && error.status === 401 && credentials?.canRefresh && !tokenRefreshed) {
+        this.breaker?.release();
+        credentials.invalidate();
+        tokenRefreshed = true;
+        attempt--;
+        continue;
+      }
+
+      if (!isTransientError(error)) {
+        this.breaker?.release();
+        throw error;
+      }
+
+      const delay = this.getRetryDelay(error, attempt);
+      if (attempt >= retries || delay === null) {
+        this.breaker?.failure();
+        throw error;
+      }
+
+      this.breaker?.release();
+      await sleep(delay, signal);
+    }
+  }
+
+  /**
+   * Get the delay before the next attempt
+   * @returns Delay in milliseconds, or null if Retry-After asks for longer than `maxDelay`
+   */
+  private getRetryDelay(error: LocaleOSError, attempt: number): number | null {
+    if (error instanceof RateLimitError && error.retryAfter !== null) {
+      const retryAfter = error.retryAfter * 1000;
+      return retryAfter <= this.maxDelay ? retryAfter : null;
+    }
+
+    // Equal jitter: half the exponential delay plus a random share of the other half
+    const delay = Math.min(this.maxDelay, this.baseDelay * 2 ** attempt);
+    return delay / 2 + Math.random() * (delay / 2);
+  }
+}
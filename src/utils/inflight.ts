@@ -0,0 +1,93 @@
+import { getAbortError } from './http';
+
+/**
+ * Pending request with the number of callers still waiting for it
+ */
+interface PendingRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+}
+
+/**
+ * Tracks pending requests by key so concurrent callers share one promise
+ * Each caller can pass its own signal: an aborted caller stops waiting right away,
+ * and the shared request is only cancelled once every caller has aborted
+ */
+export class InFlightRequests {
+  private pending = new Map<string, PendingRequest>();
+
+  /**
+   * Run a request, or join the pending one with the same key
+   * @param request - Starts the request with the shared signal
+   * @param signal - Signal of this caller (optional)
+   */
+  public run<T>(key: string, request: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) return Promise.reject(getAbortError(signal));
+
+    let entry = this.pending.get(key);
+    if (!entry) {
+      const controller = new AbortController();
+      const created: PendingRequest = {
+        promise: request(controller.signal).finally(() => {
+          if (this.pending.get(key) === created) this.pending.delete(key);
+        }),
+        controller,
+        waiters: 0,
+      };
+      this.pending.set(key, created);
+      entry = created;
+    }
+
+    return this.wait<T>(key, entry, signal);
+  }
+
+  /**
+   * Join the pending request for a key, if any
+   * @param signal - Signal of this caller (optional)
+   */
+  public join<T>(key: string, signal?: AbortSignal): Promise<T> | undefined {
+    const entry = this.pending.get(key);
+    if (!entry) return undefined;
+    if (signal?.aborted) return Promise.reject(getAbortError(signal));
+    return this.wait<T>(key, entry, signal);
+  }
+
+  /**
+   * Wait for a pending request until it settles or this caller aborts
+   */
+  private wait<T>(key: string, entry: PendingRequest, signal?: AbortSignal): Promise<T> {
+    entry.waiters++;
+
+    return new Promise<T>((resolve, reject) => {
+      let settled = false;
+
+      const onAbort = () => {
+        if (settled) return;
+        settled = true;
+        const error = getAbortError(signal as AbortSignal);
+        reject(error);
+
+        // Cancel the shared request once nobody is waiting for it anymore
+        if (--entry.waiters === 0) {
+          if (this.pending.get(key) === entry) this.pending.delete(key);
+          entry.controller.abort(error);
+        }
+      };
+      signal?.addEventListener('abort', onAbort);
+
+      const settle = (callback: () => void) => {
+        signal?.removeEventListener('abort', onAbort);
+        if (settled) return;
+        settled = true;
+        entry.waiters--;
+        callback();
+      };
+
+      entry.promise.then(
+        value => settle(() => resolve(value as T)),
+        error => settle(() => reject(error))
+      );
+    });
+  }
+}
@@ -0,0 +1,300 @@
+import type { IPRangeType, ParsedIP } from '../types';
+import { InvalidInputError } from '../errors';
+
+/**
+ * Special-purpose address blocks, checked in order
+ * Each entry is [first bytes of the network, prefix length in bits, range type]
+ */
+const IPV4_RANGES: Array<[number[], number, IPRangeType]> = [
+  [[0, 0, 0, 0], 8, 'unspecified'],
+  [[10, 0, 0, 0], 8, 'private'],
+  [[100, 64, 0, 0], 10, 'cgnat'],
+  [[127, 0, 0, 0], 8, 'loopback'],
+  [[169, 254, 0, 0], 16, 'link_local'],
+  [[172, 16, 0, 0], 12, 'private'],
+  [[192, 0, 0, 0], 24, 'reserved'],
+  [[192, 0, 2, 0], 24, 'documentation'],
+  [[192, 168, 0, 0], 16, 'private'],
+  [[198, 18, 0, 0], 15, 'reserved'],
+  [[198, 51, 100, 0], 24, 'documentation'],
+  [[203, 0, 113, 0], 24, 'documentation'],
+  [[224, 0, 0, 0], 4, 'multicast'],
+  [[255, 255, 255, 255], 32, 'broadcast'],
+  [[240, 0, 0, 0], 4, 'reserved'],
+];
+
+const IPV6_RANGES: Array<[number[], number, IPRangeType]> = [
+  [[0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0], 128, 'unspecified'],
+  [[0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1], 128, 'loopback'],
+  [[0x01, 0x00, 0, 0, 0, 0, 0, 0], 64, 'reserved'],
+  [[0x20, 0x01, 0x0d, 0xb8], 32, 'documentation'],
+  [[0x3f, 0xff, 0x00], 20, 'documentation'],
+  [[0xfc], 7, 'unique_local'],
+  [[0xfe, 0x80], 10, 'link_local'],
+  [[0xff], 8, 'multicast'],
+];
+
+/**
+ * Get the IPv4 address embedded in an IPv4-mapped, NAT64, 6to4 or Teredo IPv6 address
+ * NAT64 (64:ff9b::/96) carries it in the last 32 bits, 6to4 (2002::/16) right after the prefix,
+ * and Teredo (2001::/32) carries the client's public address inverted in the last 32 bits
+ */
+function getEmbeddedIPv4({ version, bytes, mappedIPv4 }: ParsedIP): number[] | null {
+  if (version !== 6) return null;
+  if (mappedIPv4) return bytes.slice(12);
+  if (matchesPrefix(bytes, [0x00, 0x64, 0xff, 0x9b], 96)) return bytes.slice(12);
+  if (matchesPrefix(bytes, [0x20, 0x02], 16)) return bytes.slice(2, 6);
+  if (matchesPrefix(bytes, [0x20, 0x01, 0x00, 0x00], 32)) return bytes.slice(12).map(byte => byte ^ 0xff);
+  return null;
+}
+
+/**
+ * Check whether the leading `bits` of two byte arrays are equal
+ */
+export function matchesPrefix(bytes: number[], prefix: number[], bits: number): boolean {
+  const fullBytes = Math.floor(bits / 8);
+  for (let i = 0; i < fullBytes; i++) {
+    if (bytes[i] !== (prefix[i] || 0)) return false;
+  }
+
+  const remainingBits = bits % 8;
+  if (remainingBits === 0) return true;
+
+  const mask = (0xff << (8 - remainingBits)) & 0xff;
+  return (bytes[fullBytes] & mask) === ((prefix[fullBytes] || 0) & mask);
+}
+
+/**
+ * Parse a dotted-decimal IPv4 address into 4 bytes
+ * Octets with leading zeros are rejected because some parsers read them as octal
+ */
+function parseIPv4Bytes(value: string): number[] | null {
+  const parts = value.split('.');
+  if (parts.length !== 4) return null;
+
+  const bytes: number[] = [];
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || (part.length > 1 && part.startsWith('0'))) return null;
+    const octet = Number(part);
+    if (octet > 255) return null;
+    bytes.push(octet);
+  }
+  return bytes;
+}
+
+/**
+ * Parse an IPv6 address (without zone ID) into 16 bytes
+ * Supports `::` compression and a trailing embedded IPv4 address
+ */
+function parseIPv6Bytes(value: string): number[] | null {
+  if (!/^[0-9a-f:.]+$/i.test(value)) return null;
+
+  const halves = value.split('::');
+  if (halves.length > 2) return null;
+
+  const parseGroups = (part: string): number[] | null => {
+    if (part === '') return [];
+
+    const groups = part.split(':');
+    const bytes: number[] = [];
+
+    for (let i = 0; i < groups.length; i++) {
+      const group = groups[i];
+
+      // Embedded IPv4 is only allowed as the last group
+      if (group.includes('.')) {
+        if (i !== groups.length - 1) return null;
+        const ipv4 = parseIPv4Bytes(group);
+        if (!ipv4) return null;
+        bytes.push(...ipv4);
+        continue;
+      }
+
+      if (!/^[0-9a-f]{1,4}$/i.test(group)) return null;
+      const number = parseInt(group, 16);
+      bytes.push(number >> 8, number & 0xff);
+    }
+
+    return bytes;
+  };
+
+  const head = parseGroups(halves[0]);
+  const tail = halves.length === 2 ? parseGroups(halves[1]) : [];
+  if (!head || !tail) return null;
+
+  // An embedded IPv4 address may only appear in the final part
+  if (halves.length === 2 && halves[0].includes('.')) return null;
+
+  if (halves.length === 1) {
+    return head.length === 16 ? head : null;
+  }
+
+  const missing = 16 - head.length - tail.length;
+  if (missing < 2) return null;
+
+  return [...head, ...new Array(missing).fill(0), ...tail];
+}
+
+/**
+ * Format 16 bytes as a compressed, lowercase IPv6 address (RFC 5952)
+ */
+function formatIPv6(bytes: number[]): string {
+  const groups: number[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    groups.push((bytes[i] << 8) | bytes[i + 1]);
+  }
+
+  // Find the longest run of zero groups (at least two) to compress
+  let bestStart = -1;
+  let bestLength = 0;
+  for (let i = 0; i < 8; ) {
+    if (groups[i] !== 0) {
+      i++;
+      continue;
+    }
+    let end = i;
+    while (end < 8 && groups[end] === 0) end++;
+    if (end - i > bestLength && end - i >= 2) {
+      bestStart = i;
+      bestLength = end - i;
+    }
+    i = end;
+  }
+
+  const hex = groups.map(group => group.toString(16));
+  if (bestStart === -1) return hex.join(':');
+
+  const head = hex.slice(0, bestStart).join(':');
+  const tail = hex.slice(bestStart + bestLength).join(':');
+  return `${head}::${tail}`;
+}
+
+/**
+ * Format address bytes as a normalised IP address
+ * 4 bytes are formatted as IPv4, 16 bytes as compressed IPv6
+ */
+export function formatIP(bytes: number[]): string {
+  return bytes.length === 4 ? bytes.join('.') : formatIPv6(bytes);
+}
+
+/**
+ * Check whether 16 bytes are an IPv4-mapped IPv6 address (::ffff:0:0/96)
+ */
+function isIPv4Mapped(bytes: number[]): boolean {
+  return bytes.slice(0, 10).every(byte => byte === 0) && bytes[10] === 0xff && bytes[11] === 0xff;
+}
+
+/**
+ * Parse and normalise an IPv4 or IPv6 address
+ * Accepts zone IDs (fe80::1%eth0) and IPv4-mapped IPv6 (::ffff:192.0.2.1)
+ * @returns Parsed address, or null if the input is not a valid IP address
+ */
+export function parseIP(value: string): ParsedIP | null {
+  if (typeof value !== 'string') return null;
+  const input = value.trim();
+
+  const ipv4 = parseIPv4Bytes(input);
+  if (ipv4) {
+    return { version: 4, address: ipv4.join('.'), bytes: ipv4 };
+  }
+
+  const zoneIndex = input.indexOf('%');
+  const address = zoneIndex === -1 ? input : input.slice(0, zoneIndex);
+  const zone = zoneIndex === -1 ? undefined : input.slice(zoneIndex + 1);
+  if (zone === '' || (zone !== undefined && !/^[\w.-]+$/.test(zone))) return null;
+
+  const ipv6 = parseIPv6Bytes(address);
+  if (!ipv6) return null;
+
+  const parsed: ParsedIP = { version: 6, address: formatIPv6(ipv6), bytes: ipv6 };
+  if (zone) parsed.zone = zone;
+
+  if (isIPv4Mapped(ipv6)) {
+    parsed.mappedIPv4 = ipv6.slice(12).join('.');
+    parsed.address = `::ffff:${parsed.mappedIPv4}`;
+  }
+
+  return parsed;
+}
+
+/**
+ * Check if a value is a valid IPv4 or IPv6 address
+ */
+export function isIP(value: string): boolean {
+  return parseIP(value) !== null;
+}
+
+/**
+ * Check if a value is a valid IPv4 address
+ */
+export function isIPv4(value: string): boolean {
+  return parseIP(value)?.version === 4;
+}
+
+/**
+ * Check if a value is a valid IPv6 address
+ */
+export function isIPv6(value: string): boolean {
+  return parseIP(value)?.version === 6;
+}
+
+/**
+ * Normalise an IP address for lookups
+ * IPv6 is compressed and lowercased, zone IDs are removed and IPv4-mapped IPv6 becomes IPv4
+ * @returns Normalised address, or null if the input is not a valid IP address
+ */
+export function normalizeIP(value: string): string | null {
+  const parsed = parseIP(value);
+  if (!parsed) return null;
+  return parsed.mappedIPv4 || parsed.address;
+}
+
+/**
+ * Classify an IP address into a special-purpose range
+ * IPv4-mapped, NAT64, 6to4 and Teredo IPv6 addresses are classified by the IPv4 address they embed
+ * @returns Range type ('public' for globally routable addresses), or null if the input is not a valid IP address
+ */
+export function getIPRange(value: string): IPRangeType | null {
+  const parsed = parseIP(value);
+  if (!parsed) return null;
+
+  const embedded = getEmbeddedIPv4(parsed);
+  const [bytes, ranges] = embedded
+    ? [embedded, IPV4_RANGES]
+    : [parsed.bytes, parsed.version === 4 ? IPV4_RANGES : IPV6_RANGES];
+
+  for (const [prefix, bits, type] of ranges) {
+    if (matchesPrefix(bytes, prefix, bits)) return type;
+  }
+
+  return 'public';
+}
+
+/**
+ * Check if an IP address is in a private range (RFC 1918 or IPv6 unique local)
+ */
+export function isPrivateIP(value: string): boolean {
+  const range = getIPRange(value);
+  return range === 'private' || range === 'unique_local';
+}
+
+/**
+ * Check if an IP address is not globally routable (private, loopback, link-local, CGNAT, etc.)
+ * This is a local check that complements the server-side `security.is_bogon` flag
+ */
+export function isBogonIP(value: string): boolean {
+  const range = getIPRange(value);
+  return range !== null && range !== 'public';
+}
+
+/**
+ * Validate and normalise an IP address before sending it to the API
+ * @throws InvalidInputError if the input is not a valid IP address
+ */
+export function assertValidIP(value: string): string {
+  const normalized = normalizeIP(value);
+  if (!normalized) {
+    throw new InvalidInputError(`Invalid IP address: ${value}`);
+  }
+  return normalized;
+}
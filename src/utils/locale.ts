@@ -0,0 +1,171 @@
+import type { LocaleInfo, LocaleOptions, LocaleSource, MeasurementSystem } from '../types';
+
+const DEFAULT_LOCALE = 'en-US';
+
+/**
+ * Countries whose week starts on Sunday (CLDR week data)
+ */
+const SUNDAY_FIRST = new Set(
+  (
+    'AG AS BD BR BS BT BW BZ CA CN CO DM DO ET GT GU HK HN ID IL IN JM JP KE KH KR LA MH MM MO MT MX MZ ' +
+    'NI NP PA PE PH PK PR PT PY SA SG SV TH TT TW UM US VE VI WS YE ZA ZW'
+  ).split(' ')
+);
+
+/**
+ * Countries whose week starts on Saturday (CLDR week data)
+ */
+const SATURDAY_FIRST = new Set('AE AF BH DJ DZ EG IQ IR JO KW LY OM QA SD SY'.split(' '));
+
+/**
+ * Countries whose week starts on Friday (CLDR week data)
+ */
+const FRIDAY_FIRST = new Set(['MV']);
+
+/**
+ * Canonicalize a BCP 47 tag, returning null for invalid tags
+ */
+function canonicalize(tag: string): string | null {
+  try {
+    return Intl.getCanonicalLocales(tag.replace(/_/g, '-'))[0] || null;
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Split a locale into language and region subtags
+ */
+function splitLocale(tag: string): { language: string; region: string | null } {
+  const parts = tag.split('-');
+  const region = parts.slice(1).find(part => /^(?:[A-Z]{2}|\d{3})$/.test(part)) || null;
+  return { language: parts[0].toLowerCase(), region };
+}
+
+/**
+ * Get the visitor's preferred languages from the browser
+ */
+function getBrowserLanguages(): string[] {
+  if (typeof navigator === 'undefined') return [];
+  if (navigator.languages && navigator.languages.length > 0) return [...navigator.languages];
+  return navigator.language ? [navigator.language] : [];
+}
+
+/**
+ * Resolve a best-guess BCP 47 locale from the visitor's languages and IP location
+ * 1. A preferred language for the IP country wins (browser "en-GB" in GB)
+ * 2. A preferred language spoken in the IP country gets that country as region (browser "en" in GB → "en-GB")
+ * 3. Otherwise the first preferred language is kept, since it reflects the visitor's choice
+ * 4. Without preferred languages the country's first language is used ("de" in AT → "de-AT")
+ *
+ * @example resolveLocale({ country_code: 'CH', languages: ['de', 'fr', 'it'] }, { languages: ['fr'] }) // 'fr-CH'
+ */
+export function resolveLocale(data: LocaleSource = {}, options: LocaleOptions = {}): string {
+  const country = data.country_code ? data.country_code.toUpperCase() : null;
+  const preferred = (options.languages || getBrowserLanguages())
+    .map(canonicalize)
+    .filter((tag): tag is string => tag !== null);
+  const spoken = (data.languages || []).map(language => splitLocale(language.replace(/_/g, '-')).language);
+
+  if (country) {
+    const exact = preferred.find(tag => splitLocale(tag).region === country);
+    if (exact) return exact;
+
+    for (const tag of preferred) {
+      const { language } = splitLocale(tag);
+      if (spoken.includes(language)) {
+        return canonicalize(`${language}-${country}`) || tag;
+      }
+    }
+  }
+
+  if (preferred.length > 0) return preferred[0];
+
+  if (country && spoken.length > 0) {
+    return canonicalize(`${spoken[0]}-${country}`) || DEFAULT_LOCALE;
+  }
+
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * Get the measurement system used in a country
+ * The US, Liberia and Myanmar use US customary units; the UK mixes metric and imperial
+ */
+export function getMeasurementSystem(countryCode: string | null | undefined): MeasurementSystem {
+  const country = (countryCode || '').toUpperCase();
+  if (country === 'US' || country === 'LR' || country === 'MM') return 'us';
+  if (country === 'GB') return 'uk';
+  return 'metric';
+}
+
+/**
+ * Get the first day of the week in a country
+ * @returns ISO weekday number: 1 = Monday, 5 = Friday, 6 = Saturday, 7 = Sunday
+ */
+export function getFirstDayOfWeek(countryCode: string | null | undefined): number {
+  const country = (countryCode || '').toUpperCase();
+  if (SUNDAY_FIRST.has(country)) return 7;
+  if (SATURDAY_FIRST.has(country)) return 6;
+  if (FRIDAY_FIRST.has(country)) return 5;
+  return 1;
+}
+
+/**
+ * Check if a timezone name is supported by Intl
+ */
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Build locale details and ready-made Intl formatters from IP data
+ * Dates and times are formatted in the IP timezone and amounts in the local currency
+ *
+ * @example
+ * const locale = getLocaleInfo(await LocaleOS.getComprehensiveData());
+ * locale.formatters.currency?.format(19.99); // '19,99 €'
+ * locale.formatters.dateTime.format(new Date()); // '14.03.2025, 09:30'
+ */
+export function getLocaleInfo(data: LocaleSource = {}, options: LocaleOptions = {}): LocaleInfo {
+  const locale = resolveLocale(data, options);
+  const { language } = splitLocale(locale);
+  const country = data.country_code ? data.country_code.toUpperCase() : splitLocale(locale).region;
+  const currency = data.currency?.code || null;
+
+  const ipTimeZone = data.time_zone?.name;
+  const timeZone =
+    ipTimeZone && isValidTimeZone(ipTimeZone) ? ipTimeZone : Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  let currencyFormatter: Intl.NumberFormat | null = null;
+  if (currency) {
+    try {
+      currencyFormatter = new Intl.NumberFormat(locale, { style: 'currency', currency });
+    } catch (e) {
+      // Unknown currency code - leave the currency formatter empty
+    }
+  }
+
+  return {
+    locale,
+    language,
+    country,
+    currency,
+    timeZone,
+    measurementSystem: getMeasurementSystem(country),
+    firstDayOfWeek: getFirstDayOfWeek(country),
+    hourCycle: new Intl.DateTimeFormat(locale, { hour: 'numeric' }).resolvedOptions().hour12 ? 'h12' : 'h23',
+    formatters: {
+      number: new Intl.NumberFormat(locale),
+      currency: currencyFormatter,
+      date: new Intl.DateTimeFormat(locale, { timeZone, dateStyle: 'medium' }),
+      time: new Intl.DateTimeFormat(locale, { timeZone, timeStyle: 'short' }),
+      dateTime: new Intl.DateTimeFormat(locale, { timeZone, dateStyle: 'medium', timeStyle: 'short' }),
+    },
+  };
+}
@@ -0,0 +1,48 @@
+import type { DeviceInfo, LocationInfo, UserAgentDevice } from '../types';
+
+/**
+ * Raw `/api/ip-lookup` response
+ */
+export interface IPLookupResponse {
+  status: 'success' | 'fail';
+  message?: string;
+  country?: string;
+  country_code?: string;
+  region?: string;
+  city?: string;
+  postal_code?: string;
+  latitude?: number;
+  longitude?: number;
+  timezone?: string;
+  currency?: string;
+  currency_symbol?: string;
+  device?: UserAgentDevice;
+}
+
+/**
+ * Map a raw `/api/ip-lookup` response to LocationInfo
+ * Client device info is only available when running in the browser
+ */
+export function mapLocationResponse(
+  ip: string,
+  locationData: IPLookupResponse,
+  clientDeviceInfo?: DeviceInfo
+): LocationInfo {
+  return {
+    ip,
+    country: locationData.country,
+    countryCode: locationData.country_code,
+    region: locationData.region,
+    city: locationData.city,
+    postalCode: locationData.postal_code,
+    latitude: locationData.latitude,
+    longitude: locationData.longitude,
+    timezone: locationData.timezone,
+    currency: locationData.currency,
+    currencySymbol: locationData.currency_symbol,
+    deviceInfo: {
+      client: clientDeviceInfo,
+      server: locationData.device,
+    },
+  };
+}
@@ -0,0 +1,399 @@
+import type { QueueConfig, QueuedEvent, TrackingEvent } from '../types';
+
+const DEFAULT_BATCH_SIZE = 10;
+const DEFAULT_FLUSH_INTERVAL = 5000;
+const DEFAULT_MAX_RETRIES = 5;
+const DEFAULT_MAX_QUEUE_SIZE = 100;
+const BASE_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+/**
+ * Queues of other tabs that have not been written for this long are adopted
+ * Background tabs still run the flush timer about once a minute, which rewrites their entry
+ */
+const ABANDONED_AFTER = 5 * 60 * 1000;
+
+/**
+ * Events persisted by one tab
+ */
+interface StoredQueue {
+  /**
+   * Last time the owning tab wrote the entry
+   */
+  updatedAt: number;
+
+  /**
+   * Set when the owning page was hidden for good, so the next page load can adopt the events immediately
+   */
+  closed?: boolean;
+
+  events: QueuedEvent[];
+}
+
+/**
+ * Transport callbacks used by the queue to deliver batches
+ */
+export interface EventQueueTransport {
+  /**
+   * Send a batch of events, resolving to true when the server accepted it
+   */
+  send: (events: TrackingEvent[]) => Promise<boolean>;
+
+  /**
+   * Send a batch with navigator.sendBeacon, returning true when it was handed to the browser
+   */
+  beacon: (events: TrackingEvent[]) => boolean;
+}
+
+/**
+ * Generate a unique ID for a queued event
+ */
+function generateEventId(): string {
+  return `evt_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Persistent, batched event queue
+ * Events are stored in localStorage so they survive page reloads and offline periods
+ * Each tab writes its own entry (`<storageKey>:<tabId>`) and adopts entries left behind by closed tabs,
+ * so tabs never overwrite or resend each other's events
+ * Without a storage key the queue is kept in memory only
+ */
+export class EventQueue {
+  private events: QueuedEvent[] = [];
+  private inFlight = new Set<string>();
+  private tabId = Math.random().toString(36).slice(2, 10);
+  private batchSize: number;
+  private flushInterval: number;
+  private maxRetries: number;
+  private maxQueueSize: number;
+  private consecutiveFailures = 0;
+  private retryAt = 0;
+  private flushing = false;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private storageKey: string | null,
+    private transport: EventQueueTransport,
+    config: QueueConfig = {}
+  ) {
+    this.batchSize = config.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.flushInterval = config.flushInterval ?? DEFAULT_FLUSH_INTERVAL;
+    this.maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.maxQueueSize = config.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE;
+    this.adoptAbandonedQueues();
+  }
+
+  /**
+   * Start the flush timer and page lifecycle listeners
+   */
+  public start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      // Rewrite the entry so other tabs can tell this one is still alive
+      if (this.events.length > 0) this.save();
+      this.flush();
+    }, this.flushInterval);
+
+    window.addEventListener('online', this.handleOnline);
+    window.addEventListener('pagehide', this.handlePageHide);
+    window.addEventListener('pageshow', this.handlePageShow);
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+
+    // Deliver anything left over from a previous page load
+    if (this.events.length > 0) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Stop the flush timer and remove page lifecycle listeners
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    window.removeEventListener('online', this.handleOnline);
+    window.removeEventListener('pagehide', this.handlePageHide);
+    window.removeEventListener('pageshow', this.handlePageShow);
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+  }
+
+  /**
+   * Add an event to the queue, flushing when the batch size is reached
+   */
+  public enqueue(event: TrackingEvent): void {
+    this.events.push({ id: generateEventId(), event, attempts: 0 });
+
+    if (this.events.length > this.maxQueueSize) {
+      this.events.splice(0, this.events.length - this.maxQueueSize);
+    }
+
+    this.save();
+
+    if (this.events.length >= this.batchSize) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Change where the queue is persisted; null keeps events in memory only
+   */
+  public setStorageKey(storageKey: string | null): void {
+    if (storageKey === this.storageKey) return;
+
+    this.removeStoredEvents();
+    this.storageKey = storageKey;
+    this.adoptAbandonedQueues();
+  }
+
+  /**
+   * Drop all queued events, including ones persisted by other tabs
+   */
+  public discard(): void {
+    this.events = [];
+    for (const key of this.getStoredQueueKeys()) {
+      this.removeItem(key);
+    }
+  }
+
+  /**
+   * Number of events waiting to be sent
+   */
+  public get size(): number {
+    return this.events.length;
+  }
+
+  /**
+   * Send queued events batch by batch until the queue is empty or a batch fails
+   * Skipped while offline or while waiting for a retry backoff to expire
+   * @returns true if every queued event was delivered
+   */
+  public async flush(): Promise<boolean> {
+    if (this.flushing || this.events.length === 0) return false;
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return false;
+    if (Date.now() < this.retryAt) return false;
+
+    this.flushing = true;
+    try {
+      while (this.events.length > 0) {
+        if (!(await this.sendBatch(this.events.slice(0, this.batchSize)))) return false;
+      }
+      return true;
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  /**
+   * Send one batch, removing it on success and scheduling a retry on failure
+   */
+  private async sendBatch(batch: QueuedEvent[]): Promise<boolean> {
+    batch.forEach(item => this.inFlight.add(item.id));
+
+    try {
+      const delivered = await this.transport.send(batch.map(item => item.event));
+
+      if (delivered) {
+        this.remove(batch);
+        this.consecutiveFailures = 0;
+        this.retryAt = 0;
+      } else {
+        this.handleFailure(batch);
+      }
+
+      return delivered;
+    } catch (error) {
+      this.handleFailure(batch);
+      return false;
+    } finally {
+      batch.forEach(item => this.inFlight.delete(item.id));
+    }
+  }
+
+  /**
+   * Hand every queued event that is not already being sent to navigator.sendBeacon
+   * Used when the page is being hidden or unloaded and fetch may not complete
+   * Events of a pending flush stay persisted, so they are retried if the page unloads before it settles
+   */
+  public flushWithBeacon(): void {
+    const pending = this.events.filter(item => !this.inFlight.has(item.id));
+
+    for (let i = 0; i < pending.length; i += this.batchSize) {
+      const batch = pending.slice(i, i + this.batchSize);
+      if (!this.transport.beacon(batch.map(item => item.event))) {
+        // Browser refused the beacon; keep the events for the next page load
+        return;
+      }
+      this.remove(batch);
+    }
+  }
+
+  /**
+   * Record a failed batch and schedule the next attempt with exponential backoff
+   */
+  private handleFailure(batch: QueuedEvent[]): void {
+    for (const item of batch) {
+      item.attempts += 1;
+    }
+
+    const dropped = batch.filter(item => item.attempts >= this.maxRetries);
+    if (dropped.length > 0) {
+      console.warn(`[LocaleOS] Dropping ${dropped.length} event(s) after ${this.maxRetries} failed attempts`);
+      this.remove(dropped);
+    } else {
+      this.save();
+    }
+
+    this.consecutiveFailures += 1;
+    const delay = Math.min(BASE_RETRY_DELAY * 2 ** (this.consecutiveFailures - 1), MAX_RETRY_DELAY);
+    this.retryAt = Date.now() + delay;
+  }
+
+  /**
+   * Remove events from the queue and persist the result
+   */
+  private remove(items: QueuedEvent[]): void {
+    const ids = new Set(items.map(item => item.id));
+    this.events = this.events.filter(item => !ids.has(item.id));
+    this.save();
+  }
+
+  private handleOnline = (): void => {
+    this.retryAt = 0;
+    this.flush();
+  };
+
+  private handlePageHide = (): void => {
+    this.flushWithBeacon();
+    this.save(true);
+  };
+
+  /**
+   * Reclaim the entry when the page returns from the back/forward cache
+   * If another tab adopted the events in the meantime, they are its to send
+   */
+  private handlePageShow = (event: PageTransitionEvent): void => {
+    if (!event.persisted || !this.storageKey) return;
+
+    if (this.events.length > 0 && !this.read(this.getTabKey())) {
+      this.events = [];
+    }
+    this.save();
+  };
+
+  private handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'hidden') {
+      this.flushWithBeacon();
+    }
+  };
+
+  /**
+   * Key of this tab's entry
+   */
+  private getTabKey(): string {
+    return `${this.storageKey}:${this.tabId}`;
+  }
+
+  /**
+   * Keys of every tab's persisted queue for the storage key
+   */
+  private getStoredQueueKeys(): string[] {
+    if (!this.storageKey) return [];
+
+    const prefix = `${this.storageKey}:`;
+    const keys: string[] = [];
+    try {
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key?.startsWith(prefix)) keys.push(key);
+      }
+    } catch (error) {
+      console.warn('[LocaleOS] Failed to read event queue from localStorage:', error);
+    }
+    return keys;
+  }
+
+  /**
+   * Take over events persisted by tabs that were closed or stopped writing
+   */
+  private adoptAbandonedQueues(): void {
+    const staleBefore = Date.now() - Math.max(ABANDONED_AFTER, 2 * this.flushInterval);
+    const known = new Set(this.events.map(item => item.id));
+
+    for (const key of this.getStoredQueueKeys()) {
+      const stored = this.read(key);
+      if (stored && !stored.closed && stored.updatedAt > staleBefore) continue;
+
+      this.removeItem(key);
+      for (const item of stored?.events || []) {
+        if (!known.has(item.id)) {
+          known.add(item.id);
+          this.events.push(item);
+        }
+      }
+    }
+
+    if (this.events.length > this.maxQueueSize) {
+      this.events.splice(0, this.events.length - this.maxQueueSize);
+    }
+    this.save();
+  }
+
+  /**
+   * Read a persisted queue, returning null if it is missing or malformed
+   */
+  private read(key: string): StoredQueue | null {
+    try {
+      const stored = localStorage.getItem(key);
+      if (!stored) return null;
+
+      const parsed = JSON.parse(stored);
+      return parsed && Array.isArray(parsed.events) ? parsed : null;
+    } catch (error) {
+      console.warn('[LocaleOS] Failed to read event queue from localStorage:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Persist this tab's queued events to localStorage
+   * @param closed - Mark the entry as left behind so the next page load adopts it
+   */
+  private save(closed = false): void {
+    if (!this.storageKey) return;
+
+    try {
+      if (this.events.length === 0) {
+        localStorage.removeItem(this.getTabKey());
+      } else {
+        const stored: StoredQueue = { updatedAt: Date.now(), events: this.events };
+        if (closed) stored.closed = true;
+        localStorage.setItem(this.getTabKey(), JSON.stringify(stored));
+      }
+    } catch (error) {
+      console.warn('[LocaleOS] Failed to save event queue to localStorage:', error);
+    }
+  }
+
+  /**
+   * Remove this tab's persisted events from localStorage
+   */
+  private removeStoredEvents(): void {
+    if (this.storageKey) this.removeItem(this.getTabKey());
+  }
+
+  /**
+   * Remove a persisted queue from localStorage
+   */
+  private removeItem(key: string): void {
+    try {
+      localStorage.removeItem(key);
+    } catch (error) {
+      console.warn('[LocaleOS] Failed to remove event queue from localStorage:', error);
+    }
+  }
+}
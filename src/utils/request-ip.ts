@@ -0,0 +1,179 @@
+import type { ClientIPOptions, RequestHeadersLike, RequestLike } from '../types';
+import { normalizeIP } from './ip';
+import { IPSet } from './cidr';
+
+/**
+ * Minimal shape of an Express/Node.js response used by the Express handler
+ */
+interface ExpressResponseLike {
+  setHeader(name: string, value: string): unknown;
+  status(code: number): { json(body: unknown): unknown };
+  json(body: unknown): unknown;
+}
+
+/**
+ * Read a header value from Fetch API Headers or a Node.js header map
+ */
+function getHeader(headers: RequestHeadersLike, name: string): string | null {
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name);
+  }
+
+  const value = (headers as Record<string, string | string[] | undefined>)[name.toLowerCase()];
+  if (Array.isArray(value)) return value.join(', ');
+  return value ?? null;
+}
+
+/**
+ * Strip quotes, ports and brackets from an address and normalise it
+ * Returns null for empty, obfuscated or otherwise unusable values
+ */
+function normalizeAddress(value: string): string | null {
+  let address = value.trim().replace(/^"|"$/g, '');
+  if (!address || address === 'unknown' || address.startsWith('_')) return null;
+
+  if (address.startsWith('[')) {
+    // Bracketed IPv6, optionally with a port: [2001:db8::1]:8080
+    const end = address.indexOf(']');
+    if (end === -1) return null;
+    address = address.slice(1, end);
+  } else if (/^\d{1,3}(\.\d{1,3}){3}:\d+$/.test(address)) {
+    // IPv4 with a port: 192.0.2.1:8080
+    address = address.slice(0, address.lastIndexOf(':'));
+  }
+
+  return normalizeIP(address);
+}
+
+/**
+ * Parse the addresses from a comma-separated X-Forwarded-For header
+ */
+function parseXForwardedFor(value: string): string[] {
+  return value
+    .split(',')
+    .map(normalizeAddress)
+    .filter((address): address is string => address !== null);
+}
+
+/**
+ * Parse the `for=` addresses from an RFC 7239 Forwarded header
+ * e.g. `for=192.0.2.60;proto=http, for="[2001:db8:cafe::17]:4711"`
+ */
+function parseForwarded(value: string): string[] {
+  const addresses: string[] = [];
+
+  for (const element of value.split(',')) {
+    for (const pair of element.split(';')) {
+      const [key, ...rest] = pair.split('=');
+      if (key.trim().toLowerCase() !== 'for') continue;
+
+      const address = normalizeAddress(rest.join('='));
+      if (address) addresses.push(address);
+    }
+  }
+
+  return addresses;
+}
+
+/**
+ * Pick the client address from a proxy chain (client first, closest proxy last)
+ * Walks from the closest proxy back towards the client and returns the first address
+ * that is not a trusted proxy, since everything left of it may be forged by the client
+ */
+function pickFromChain(chain: string[], trustedProxies: IPSet): string | null {
+  for (let i = chain.length - 1; i >= 0; i--) {
+    if (!trustedProxies.has(chain[i])) {
+      return chain[i];
+    }
+  }
+
+  // Every hop is a trusted proxy, so the left-most one talked to the client directly
+  return chain[0] ?? null;
+}
+
+/**
+ * Extract the client IP address from an incoming request
+ * Defaults to the socket address; forwarding headers are only read when you opt in:
+ * `ipHeader` names a single-value header set by your platform (e.g. CF-Connecting-IP),
+ * and `trustedProxies` enables Forwarded (RFC 7239) and X-Forwarded-For for requests from those proxies
+ * @param request - Node.js, Express or Fetch API request
+ * @param options - Client IP header and trusted proxy configuration
+ * @returns Client IP address, or null if none could be determined
+ */
+export function getClientIP(request: RequestLike, options: ClientIPOptions = {}): string | null {
+  const trustedProxies = options.trustedProxies ? new IPSet(options.trustedProxies) : null;
+  const remoteAddress = normalizeAddress(request.socket?.remoteAddress || request.ip || '');
+  const fromTrustedProxy = trustedProxies !== null && remoteAddress !== null && trustedProxies.has(remoteAddress);
+
+  // A platform header is trusted as configured, unless proxies are listed and the request bypassed them
+  if (options.ipHeader && (!trustedProxies || fromTrustedProxy)) {
+    const value = getHeader(request.headers, options.ipHeader);
+    const address = value ? normalizeAddress(value) : null;
+    if (address) return address;
+  }
+
+  if (trustedProxies && fromTrustedProxy) {
+    const forwarded = getHeader(request.headers, 'forwarded');
+    const forwardedAddress = forwarded ? pickFromChain(parseForwarded(forwarded), trustedProxies) : null;
+    if (forwardedAddress) return forwardedAddress;
+
+    const xForwardedFor = getHeader(request.headers, 'x-forwarded-for');
+    const xForwardedForAddress = xForwardedFor
+      ? pickFromChain(parseXForwardedFor(xForwardedFor), trustedProxies)
+      : null;
+    if (xForwardedForAddress) return xForwardedForAddress;
+  }
+
+  return remoteAddress;
+}
+
+/**
+ * Create an Express (or Node.js-compatible) handler that responds with `{ "ip": "x.x.x.x" }`
+ * Use it as your `ipDetectionEndpoint`:
+ * `app.get('/api/my-ip', createExpressHandler())`
+ */
+export function createExpressHandler(options: ClientIPOptions = {}) {
+  return (req: RequestLike, res: ExpressResponseLike): void => {
+    const ip = getClientIP(req, options);
+    res.setHeader('Cache-Control', 'no-store');
+
+    if (!ip) {
+      res.status(400).json({ error: 'Unable to determine client IP' });
+      return;
+    }
+
+    res.json({ ip });
+  };
+}
+
+/**
+ * Create a Fetch API handler that responds with `{ "ip": "x.x.x.x" }`
+ * Works with Cloudflare Workers, Deno, Bun and other Fetch API runtimes
+ * Fetch API requests carry no socket address, so set `ipHeader` (e.g. 'cf-connecting-ip')
+ */
+export function createFetchHandler(options: ClientIPOptions = {}) {
+  return (request: Request): Response => {
+    const ip = getClientIP(request as Request & RequestLike, options);
+    const headers = {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    };
+
+    if (!ip) {
+      return new Response(JSON.stringify({ error: 'Unable to determine client IP' }), {
+        status: 400,
+        headers,
+      });
+    }
+
+    return new Response(JSON.stringify({ ip }), { status: 200, headers });
+  };
+}
+
+/**
+ * Create a Next.js App Router route handler that responds with `{ "ip": "x.x.x.x" }`
+ * In `app/api/my-ip/route.ts` on Vercel: `export const GET = createNextHandler({ ipHeader: 'x-real-ip' });`
+ */
+export function createNextHandler(options: ClientIPOptions = {}) {
+  return createFetchHandler(options);
+}
@@ -0,0 +1,157 @@
+import type {
+  ComprehensiveIPData,
+  RiskAssessment,
+  RiskClientSignals,
+  RiskLevel,
+  RiskSignal,
+  RiskSignalCode,
+} from '../types';
+
+/**
+ * Weight of each risk signal (0-1)
+ * Anonymising networks weigh most; mismatches between browser and IP are weaker hints
+ * because travellers and expats trigger them too
+ */
+const SIGNAL_WEIGHTS: Record<RiskSignalCode, number> = {
+  tor: 0.6,
+  automation: 0.5,
+  proxy: 0.4,
+  vpn: 0.35,
+  hosting: 0.35,
+  threat: 0.4,
+  bogon: 0.3,
+  timezone_mismatch: 0.3,
+  language_mismatch: 0.1,
+  relay: 0.1,
+};
+
+/**
+ * Threat weight by server threat level; unknown levels use the default `threat` weight
+ */
+const THREAT_LEVEL_WEIGHTS: Record<string, number> = {
+  low: 0.2,
+  medium: 0.4,
+  high: 0.7,
+  critical: 0.9,
+};
+
+const REVIEW_THRESHOLD = 0.3;
+const BLOCK_THRESHOLD = 0.6;
+
+/**
+ * Get the current UTC offset of a timezone in minutes
+ * @returns Offset, or null if the timezone is not supported
+ */
+function getTimeZoneOffset(timeZone: string, date: Date = new Date()): number | null {
+  try {
+    const time = Math.floor(date.getTime() / 1000) * 1000;
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hour12: false,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    }).formatToParts(new Date(time));
+
+    const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+    const local = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour') % 24, get('minute'), get('second'));
+    return Math.round((local - time) / 60000);
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Check if any preferred language is spoken in, or localised for, the IP country
+ */
+function matchesCountryLanguage(languages: readonly string[], country: string, spoken: string[]): boolean {
+  return languages.some(tag => {
+    const [language, ...subtags] = tag.replace(/_/g, '-').split('-');
+    return spoken.includes(language.toLowerCase()) || subtags.some(subtag => subtag.toUpperCase() === country);
+  });
+}
+
+/**
+ * Cross-check IP data with browser signals and score the risk of a visit
+ * Combines server privacy and security flags, the ASN type, and mismatches between
+ * the browser timezone/languages and the IP location into an explainable verdict
+ * Intended as one input for fraud checks (e.g. at signup or checkout), not as a sole decision
+ *
+ * @example
+ * const risk = assessRisk(ipData, { timeZone: 'America/New_York', languages: ['en-US'] });
+ * // { score: 0.55, level: 'medium', verdict: 'review', signals: [{ code: 'vpn', ... }, ...] }
+ */
+export function assessRisk(data: ComprehensiveIPData, client: RiskClientSignals = {}): RiskAssessment {
+  const signals: RiskSignal[] = [];
+  const add = (code: RiskSignalCode, message: string, weight: number = SIGNAL_WEIGHTS[code]) => {
+    signals.push({ code, weight, message });
+  };
+
+  const privacy = data.privacy;
+  const security = data.security;
+
+  if (privacy?.tor || security?.is_tor || security?.is_tor_exit) {
+    add('tor', 'IP address is a Tor node');
+  }
+  if (privacy?.vpn) {
+    add('vpn', privacy.service ? `IP address belongs to VPN service ${privacy.service}` : 'IP address belongs to a VPN');
+  }
+  if (privacy?.proxy) {
+    add('proxy', 'IP address is an open or anonymous proxy');
+  }
+  if (privacy?.relay) {
+    add('relay', 'IP address is a privacy relay such as iCloud Private Relay');
+  }
+  if (privacy?.hosting || data.asn?.type === 'hosting') {
+    add('hosting', `IP address belongs to a hosting provider${data.asn?.name ? ` (${data.asn.name})` : ''}`);
+  }
+  if (security?.is_threat) {
+    const level = (security.threat_level || '').toLowerCase();
+    const types = security.threat_types?.length ? `: ${security.threat_types.join(', ')}` : '';
+    add('threat', `IP address is a known threat${types}`, THREAT_LEVEL_WEIGHTS[level] ?? SIGNAL_WEIGHTS.threat);
+  }
+  if (security?.is_bogon) {
+    add('bogon', 'IP address is not publicly routable');
+  }
+
+  // Browser timezone vs. IP timezone: compare current offsets so neighbouring zones don't count
+  const ipTimeZone = data.time_zone?.name;
+  if (client.timeZone && ipTimeZone && client.timeZone !== ipTimeZone) {
+    const browserOffset = getTimeZoneOffset(client.timeZone);
+    const ipOffset = getTimeZoneOffset(ipTimeZone);
+    if (browserOffset !== null && ipOffset !== null && browserOffset !== ipOffset) {
+      add('timezone_mismatch', `Browser timezone ${client.timeZone} does not match IP timezone ${ipTimeZone}`);
+    }
+  }
+
+  // Browser languages vs. languages of the IP country
+  const country = data.country_code ? data.country_code.toUpperCase() : null;
+  const spoken = (data.languages || []).map(language => language.split(/[-_]/)[0].toLowerCase());
+  if (client.languages?.length && country && spoken.length > 0) {
+    if (!matchesCountryLanguage(client.languages, country, spoken)) {
+      add('language_mismatch', `Browser languages ${client.languages.join(', ')} are not used in ${country}`);
+    }
+  }
+
+  if (client.automation?.isBot) {
+    add('automation', `Browser shows signs of automation: ${client.automation.reasons.join(', ')}`);
+  }
+
+  // Combine independent signals: 1 - product of (1 - weight)
+  const score = Math.round((1 - signals.reduce((remaining, signal) => remaining * (1 - signal.weight), 1)) * 1000) / 1000;
+
+  let level: RiskLevel = 'low';
+  if (score >= BLOCK_THRESHOLD) level = 'high';
+  else if (score >= REVIEW_THRESHOLD) level = 'medium';
+
+  return {
+    ip: data.ip,
+    score,
+    level,
+    verdict: level === 'high' ? 'block' : level === 'medium' ? 'review' : 'allow',
+    signals,
+  };
+}
@@ -0,0 +1,23 @@
+import { InvalidInputError } from '../errors';
+
+/**
+ * Build a storage key, scoped to a namespace when one is given
+ * Without a namespace the unscoped keys are used, so data stored by earlier versions is kept
+ * @example getStorageKey('fingerprint') // 'localeos_fingerprint'
+ * @example getStorageKey('fingerprint', 'shop') // 'localeos_shop_fingerprint'
+ */
+export function getStorageKey(name: string, namespace?: string): string {
+  return namespace ? `localeos_${namespace}_${name}` : `localeos_${name}`;
+}
+
+/**
+ * Validate a storage namespace: letters, digits and hyphens only,
+ * so scoped keys can never collide with unscoped ones
+ * @throws InvalidInputError if the namespace contains other characters
+ */
+export function assertValidNamespace(namespace: string): string {
+  if (!/^[A-Za-z0-9-]+$/.test(namespace)) {
+    throw new InvalidInputError(`Invalid storage namespace "${namespace}": use letters, digits and hyphens only`);
+  }
+  return namespace;
+}
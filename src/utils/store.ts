@@ -0,0 +1,49 @@
+/**
+ * Minimal observable store
+ * Snapshots are immutable: every update replaces the snapshot, so it can be compared by reference
+ * (as required by React's useSyncExternalStore, Svelte stores and similar adapters)
+ */
+export class Store<S extends object, E> {
+  private listeners = new Set<(event: E) => void>();
+
+  constructor(private snapshot: S) {}
+
+  /**
+   * Get the current snapshot
+   */
+  public getSnapshot(): S {
+    return this.snapshot;
+  }
+
+  /**
+   * Subscribe to events
+   * @returns Function that removes the listener
+   */
+  public subscribe(listener: (event: E) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Update the snapshot and notify listeners
+   */
+  public update(changes: Partial<S>, event: E): void {
+    this.snapshot = { ...this.snapshot, ...changes };
+    this.emit(event);
+  }
+
+  /**
+   * Notify listeners, isolating them from each other's errors
+   */
+  public emit(event: E): void {
+    for (const listener of [...this.listeners]) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[LocaleOS] Store listener failed:', error);
+      }
+    }
+  }
+}
@@ -0,0 +1,309 @@
+import type { UserAgentDevice } from '../types';
+
+/**
+ * Structured result of parsing a User-Agent string
+ */
+export interface UserAgentDetails {
+  browserName: string | null;
+  browserVersion: string | null;
+  engine: string | null;
+  engineVersion: string | null;
+  osName: string | null;
+  osVersion: string | null;
+  deviceType: 'Desktop' | 'Mobile' | 'Tablet';
+  model: string | null;
+  architecture: string | null;
+  webview: boolean;
+}
+
+/**
+ * Browser rules, checked in order
+ * Browsers built on Chromium also send "Chrome/" and "Safari/", so they must come before Chrome and Safari
+ */
+const BROWSER_RULES: Array<{ name: string; pattern: RegExp }> = [
+  // In-app browsers
+  { name: 'Facebook', pattern: /\bFBAV\/([\d.]+)/ },
+  { name: 'Facebook', pattern: /\bFB(?:AN|_IAB)\// },
+  { name: 'Instagram', pattern: /\bInstagram ([\d.]+)/ },
+  { name: 'TikTok', pattern: /\b(?:musical_ly|BytedanceWebview)(?:_|\/)([\d.]+)?/ },
+  { name: 'Snapchat', pattern: /\bSnapchat\/([\d.]+)/ },
+  { name: 'LINE', pattern: /\bLine\/([\d.]+)/ },
+  { name: 'WeChat', pattern: /\bMicroMessenger\/([\d.]+)/ },
+  // Chromium-based and other branded browsers
+  { name: 'Edge', pattern: /\bEdg(?:e|A|iOS)?\/([\d.]+)/ },
+  { name: 'Opera Mini', pattern: /\bOpera Mini\/([\d.]+)/ },
+  { name: 'Opera', pattern: /\b(?:OPR|OPT|OPiOS)\/([\d.]+)/ },
+  { name: 'Opera', pattern: /\bOpera\/.*Version\/([\d.]+)/ },
+  { name: 'Samsung Internet', pattern: /\bSamsungBrowser\/([\d.]+)/ },
+  { name: 'Yandex', pattern: /\bYaBrowser\/([\d.]+)/ },
+  { name: 'Vivaldi', pattern: /\bVivaldi\/([\d.]+)/ },
+  { name: 'Brave', pattern: /\bBrave(?:\/([\d.]+))?/ },
+  { name: 'UC Browser', pattern: /\bUCBrowser\/([\d.]+)/ },
+  { name: 'Silk', pattern: /\bSilk\/([\d.]+)/ },
+  { name: 'DuckDuckGo', pattern: /\bDdg\/([\d.]+)/ },
+  // iOS browsers use WebKit but carry their own token
+  { name: 'Chrome', pattern: /\bCriOS\/([\d.]+)/ },
+  { name: 'Firefox', pattern: /\bFxiOS\/([\d.]+)/ },
+  // Base browsers
+  { name: 'Firefox', pattern: /\bFirefox\/([\d.]+)/ },
+  { name: 'Chromium', pattern: /\bChromium\/([\d.]+)/ },
+  { name: 'Chrome', pattern: /\bChrome\/([\d.]+)/ },
+  { name: 'IE', pattern: /\bMSIE ([\d.]+)/ },
+  { name: 'IE', pattern: /\bTrident\/.*rv:([\d.]+)/ },
+  { name: 'Android Browser', pattern: /\bAndroid\b.*\bVersion\/([\d.]+).*Safari\// },
+  { name: 'Safari', pattern: /\bVersion\/([\d.]+).*Safari\// },
+];
+
+/**
+ * Operating system rules, checked in order
+ */
+const OS_RULES: Array<{ name: string; pattern: RegExp }> = [
+  { name: 'Windows Phone', pattern: /\bWindows Phone(?: OS)? ([\d.]+)/ },
+  { name: 'Windows', pattern: /\bWindows NT ([\d.]+)/ },
+  { name: 'iPadOS', pattern: /\biPad\b.*? OS (\d+(?:[_.]\d+)*)/ },
+  { name: 'iOS', pattern: /\b(?:iPhone|iPod)\b.*? OS (\d+(?:[_.]\d+)*)/ },
+  { name: 'Android', pattern: /\bAndroid(?:[ /]([\d.]+))?/ },
+  { name: 'HarmonyOS', pattern: /\bHarmonyOS(?:[ /]([\d.]+))?/ },
+  { name: 'KaiOS', pattern: /\bKAIOS\/([\d.]+)/i },
+  { name: 'ChromeOS', pattern: /\bCrOS \w+ ([\d.]+)/ },
+  { name: 'macOS', pattern: /\bMac OS X(?: (\d+(?:[_.]\d+)*))?/ },
+  { name: 'Linux', pattern: /\bLinux\b/ },
+];
+
+/**
+ * Marketing names for Windows NT kernel versions
+ * NT 10.0 covers both Windows 10 and 11; only Client Hints can tell them apart
+ */
+const WINDOWS_VERSIONS: Record<string, string> = {
+  '10.0': '10',
+  '6.3': '8.1',
+  '6.2': '8',
+  '6.1': '7',
+  '6.0': 'Vista',
+  '5.2': 'XP',
+  '5.1': 'XP',
+};
+
+/**
+ * Match the first rule whose pattern is found in the User-Agent
+ */
+function matchRule(
+  userAgent: string,
+  rules: Array<{ name: string; pattern: RegExp }>
+): { name: string; version: string | null } | null {
+  for (const rule of rules) {
+    const match = userAgent.match(rule.pattern);
+    if (match) {
+      return { name: rule.name, version: match[1] ? match[1].replace(/_/g, '.') : null };
+    }
+  }
+  return null;
+}
+
+/**
+ * Detect the rendering engine
+ * Every iOS browser uses WebKit regardless of its own token
+ */
+function detectEngine(
+  userAgent: string,
+  osName: string | null
+): { name: string | null; version: string | null } {
+  const webkit = userAgent.match(/\bAppleWebKit\/([\d.]+)/);
+  if (osName === 'iOS' || osName === 'iPadOS') {
+    return { name: 'WebKit', version: webkit ? webkit[1] : null };
+  }
+
+  const rules: Array<[string, RegExp]> = [
+    ['Trident', /\bTrident\/([\d.]+)/],
+    ['EdgeHTML', /\bEdge\/([\d.]+)/],
+    ['Presto', /\bPresto\/([\d.]+)/],
+    ['Blink', /\bChrom(?:e|ium)\/([\d.]+)/],
+    ['Gecko', /\brv:([\d.]+)\).*\bGecko\/\d+/],
+  ];
+  for (const [name, pattern] of rules) {
+    const match = userAgent.match(pattern);
+    if (match) return { name, version: match[1] };
+  }
+
+  return webkit ? { name: 'WebKit', version: webkit[1] } : { name: null, version: null };
+}
+
+/**
+ * Detect the device model
+ * Android models sit after the Android version; "K" is the placeholder sent by reduced User-Agents
+ */
+function detectModel(userAgent: string, osName: string | null): string | null {
+  const apple = userAgent.match(/\b(iPhone|iPad|iPod)\b/);
+  if (apple) return apple[1];
+
+  if (osName === 'Android') {
+    const match = userAgent.match(/\bAndroid[^;)]*;(?:\s*[a-z]{2}[-_][a-z]{2};)?\s*([^;)]+?)(?:\s+Build\/[^;)]*)?\s*[;)]/i);
+    const model = match ? match[1].trim() : '';
+    if (model && model !== 'K' && !/^(?:wv|Mobile|Linux|U)$/i.test(model)) return model;
+  }
+
+  return null;
+}
+
+/**
+ * Detect the CPU architecture from User-Agent tokens
+ * macOS always reports "Intel", even on Apple silicon, so no architecture is derived from it
+ */
+function detectArchitecture(userAgent: string): string | null {
+  if (/\b(?:aarch64|arm64)\b/i.test(userAgent)) return 'arm64';
+  if (/\barm(?:v\d+\w*)?\b/i.test(userAgent)) return 'arm';
+  if (/\b(?:x86_64|x64|Win64|WOW64|amd64)\b/i.test(userAgent)) return 'x86_64';
+  if (/\b(?:i[3-6]86|x86)\b/i.test(userAgent)) return 'x86';
+  return null;
+}
+
+/**
+ * Detect the device type
+ */
+function detectDeviceType(userAgent: string, osName: string | null): UserAgentDetails['deviceType'] {
+  if (osName === 'iPadOS' || /\b(?:Tablet|Silk|Kindle|PlayBook)\b/i.test(userAgent)) return 'Tablet';
+  if (osName === 'Android' && !/\bMobile\b/.test(userAgent)) return 'Tablet';
+  if (/Mobi|\b(?:iPhone|iPod|Windows Phone|Opera Mini|BlackBerry|IEMobile|KAIOS)\b/i.test(userAgent)) return 'Mobile';
+  return 'Desktop';
+}
+
+/**
+ * Detect embedded webviews: Android WebView, in-app browsers and iOS WKWebView
+ */
+function detectWebview(userAgent: string, osName: string | null, browserName: string | null): boolean {
+  if (/; wv\)/.test(userAgent)) return true;
+  if (['Facebook', 'Instagram', 'TikTok', 'Snapchat', 'LINE', 'WeChat'].includes(browserName || '')) return true;
+
+  // iOS browsers all include "Safari/"; embedded WKWebViews do not
+  return (osName === 'iOS' || osName === 'iPadOS') && !/\bSafari\//.test(userAgent);
+}
+
+/**
+ * Crawlers, monitoring services, HTTP libraries and link preview fetchers
+ */
+const BOT_PATTERN =
+  /\bbot\b|bot[/-]|crawl|spider|slurp|archiver|facebookexternalhit|embedly|quora link preview|whatsapp|lighthouse|pingdom|uptime|headlesschrome|phantomjs|slimerjs|python-requests|python-urllib|curl\/|wget\/|go-http-client|okhttp|axios\/|node-fetch|java\/|libwww-perl|scrapy/i;
+
+/**
+ * Check if a User-Agent belongs to a known crawler, headless browser or HTTP client
+ */
+export function isBotUserAgent(userAgent: string): boolean {
+  return !userAgent || BOT_PATTERN.test(userAgent);
+}
+
+/**
+ * Parse a User-Agent string with ordered rules
+ * Pure function: does not read navigator, so it also works on the server
+ */
+export function parseUserAgentDetails(userAgent: string): UserAgentDetails {
+  const ua = userAgent || '';
+
+  const os = matchRule(ua, OS_RULES);
+  const osName = os ? os.name : null;
+  let osVersion = os ? os.version : null;
+  if (osName === 'Windows' && osVersion) {
+    osVersion = WINDOWS_VERSIONS[osVersion] || osVersion;
+  }
+
+  const browser = matchRule(ua, BROWSER_RULES);
+  let browserName = browser ? browser.name : null;
+  let browserVersion = browser ? browser.version : null;
+
+  // Android WebView keeps its Chrome token; iOS WKWebView has no browser token at all
+  const webview = detectWebview(ua, osName, browserName);
+  if (webview && !browser && (osName === 'iOS' || osName === 'iPadOS')) {
+    browserName = 'WebView';
+    browserVersion = null;
+  }
+
+  const engine = detectEngine(ua, osName);
+
+  return {
+    browserName,
+    browserVersion,
+    engine: engine.name,
+    engineVersion: engine.version,
+    osName,
+    osVersion,
+    deviceType: detectDeviceType(ua, osName),
+    model: detectModel(ua, osName),
+    architecture: detectArchitecture(ua),
+    webview,
+  };
+}
+
+/**
+ * Android model prefixes mapped to manufacturers, checked in order
+ */
+const ANDROID_BRANDS: Array<[RegExp, string]> = [
+  [/^(?:SM-|GT-|SCH-|SGH-|SHV-|Galaxy|SAMSUNG)/i, 'Samsung'],
+  [/^(?:Pixel|Nexus)/i, 'Google'],
+  [/^(?:Redmi|POCO|Mi |MI |M\d{4}|2\d{3}[A-Z0-9]{4,})/, 'Xiaomi'],
+  [/^(?:ONEPLUS|OnePlus)/, 'OnePlus'],
+  [/^(?:CPH|OPPO)/i, 'OPPO'],
+  [/^(?:vivo|V\d{4})/i, 'vivo'],
+  [/^(?:HUAWEI|[A-Z]{3}-(?:L|AL|TL|LX)\d)/, 'Huawei'],
+  [/^(?:HONOR|Honor)/, 'Honor'],
+  [/^(?:moto|motorola|XT\d{4})/i, 'Motorola'],
+  [/^(?:LM-|LG-|LG)/, 'LG'],
+  [/^(?:Nokia|TA-\d{4})/i, 'Nokia'],
+  [/^(?:SO-|Xperia|[A-Z]\d{4}$)/, 'Sony'],
+  [/^(?:KF[A-Z]{2}|Kindle)/, 'Amazon'],
+  [/^(?:RMX|realme)/i, 'realme'],
+  [/^(?:TECNO|Infinix|itel)/i, 'Transsion'],
+  [/^(?:ASUS|ZenFone)/i, 'ASUS'],
+  [/^Lenovo/i, 'Lenovo'],
+];
+
+/**
+ * Detect the device manufacturer from the model and operating system
+ */
+function detectBrand(model: string | null, osName: string | null): string | null {
+  if (osName === 'iOS' || osName === 'iPadOS' || osName === 'macOS') return 'Apple';
+  if (!model) return null;
+
+  for (const [pattern, brand] of ANDROID_BRANDS) {
+    if (pattern.test(model)) return brand;
+  }
+  return null;
+}
+
+/**
+ * Parse a User-Agent string into the same shape as the API's `device` object
+ * Does not read navigator or screen, so it works in Node.js and edge runtimes, e.g. for server logs
+ *
+ * @example
+ * parseUserAgent('Mozilla/5.0 (Linux; Android 13; SM-S918B) ... SamsungBrowser/23.0 Chrome/115.0.0.0 Mobile Safari/537.36');
+ * // { name: 'Samsung SM-S918B', type: 'mobile', brand: 'Samsung', model: 'SM-S918B', os: 'Android', os_version: '13',
+ * //   browser: 'Samsung Internet', browser_version: '23.0', is_mobile: true, ..., is_bot: false }
+ */
+export function parseUserAgent(userAgent: string): UserAgentDevice {
+  const ua = typeof userAgent === 'string' ? userAgent.trim() : '';
+  const details = parseUserAgentDetails(ua);
+  const isBot = isBotUserAgent(ua);
+
+  const model = details.model || (details.osName === 'macOS' ? 'Mac' : null);
+  const brand = detectBrand(model, details.osName);
+  const type = isBot ? 'bot' : details.deviceType.toLowerCase();
+
+  let name = [brand, model].filter(Boolean).join(' ');
+  if (!name) {
+    name = isBot ? 'Bot' : [details.osName, details.deviceType].filter(Boolean).join(' ');
+  }
+
+  return {
+    name,
+    type,
+    brand,
+    model,
+    os: details.osName,
+    os_version: details.osVersion,
+    browser: details.browserName,
+    browser_version: details.browserVersion,
+    is_mobile: !isBot && details.deviceType === 'Mobile',
+    is_tablet: !isBot && details.deviceType === 'Tablet',
+    is_desktop: !isBot && details.deviceType === 'Desktop',
+    is_bot: isBot,
+    user_agent: ua || null,
+  };
+}
@@ -64,13 +64,24 @@ console.log('✅ Test 4: Default instance has all documented methods');
 const requiredMethods = [
   'init',
   'getDeviceInfo',
+  'getDetailedDeviceInfo',
   'getLocationInfo',
   'getComprehensiveData',
+  'getBulkData',
   'getTimezone',
   'getCurrency',
   'getASN',
   'getCompany',
+  'getLocaleInfo',
+  'getRiskAssessment',
+  'getGeoVariant',
+  'subscribe',
+  'getSnapshot',
   'clearCache',
+  'track',
+  'flush',
+  'setConsent',
+  'getConsent',
 ];
 
 for (const method of requiredMethods) {
@@ -81,7 +92,7 @@ for (const method of requiredMethods) {
 
 // Test 5: Verify outdated methods don't exist
 console.log('✅ Test 5: Outdated methods do not exist');
-const outdatedMethods = ['track', 'trackEvent', 'trackPageView'];
+const outdatedMethods = ['trackEvent', 'trackPageView'];
 
 for (const method of outdatedMethods) {
   if (method in LocaleOS) {
@@ -111,7 +122,7 @@ if (browserCheck !== false) {
 
 console.log('\n🎉 All export tests passed!');
 console.log('📦 Package exports are correct and match documentation');
-console.log('✅ All 9 documented methods are available');
+console.log('✅ All 20 documented methods are available');
 console.log('✅ No outdated methods exist');
 console.log('✅ Utility functions are exported');
 console.log('✅ Class can be instantiated');
@@ -6,8 +6,8 @@
 // Test default import
 import LocaleOS from './src/index';
 
-// Test named imports - Class
-import { LocaleOSAnalytics } from './src/index';
+// Test named imports - Class and factory
+import { LocaleOSAnalytics, createClient } from './src/index';
 
 // Test type imports
 import type {
@@ -22,6 +22,9 @@ import type {
   TrackingEvent,
   TrackingResponse,
   FingerprintComponents,
+  LocaleInfo,
+  LocaleOSSnapshot,
+  RiskAssessment,
 } from './src/index';
 
 // Test utility imports
@@ -47,20 +50,46 @@ function testMethodSignatures() {
   // init returns void
   const initResult: void = LocaleOS.init(config);
 
+  // createClient returns an initialized, independent client
+  const scopedClient: LocaleOSAnalytics = createClient({ ...config, namespace: 'tenant-a' });
+
   // getDeviceInfo returns DeviceInfo | null
   const deviceInfo: DeviceInfo | null = LocaleOS.getDeviceInfo();
+  const detailedDevicePromise: Promise<DeviceInfo | null> = LocaleOS.getDetailedDeviceInfo();
 
   // Async methods return Promises
   const locationPromise: Promise<LocationInfo | null> = LocaleOS.getLocationInfo();
   const comprehensivePromise: Promise<ComprehensiveIPData | null> = LocaleOS.getComprehensiveData();
   const timezonePromise: Promise<TimezoneInfo | null> = LocaleOS.getTimezone('8.8.8.8');
+  const cancellablePromise: Promise<ComprehensiveIPData | null> = LocaleOS.getComprehensiveData('8.8.8.8', {
+    signal: new AbortController().signal,
+    timeout: 3000,
+  });
   const currencyPromise: Promise<CurrencyInfo | null> = LocaleOS.getCurrency('8.8.8.8');
   const asnPromise: Promise<ASNInfo | null> = LocaleOS.getASN('8.8.8.8');
   const companyPromise: Promise<CompanyInfo | null> = LocaleOS.getCompany('8.8.8.8');
+  const localePromise: Promise<LocaleInfo | null> = LocaleOS.getLocaleInfo('8.8.8.8');
+  const riskPromise: Promise<RiskAssessment | null> = LocaleOS.getRiskAssessment();
+  const variantPromise: Promise<string | null> = LocaleOS.getGeoVariant([
+    { when: { eu: true }, variant: 'eu' },
+    { when: {}, variant: 'global' },
+  ]);
 
   // clearCache returns void
   const clearResult: void = LocaleOS.clearCache();
 
+  // subscribe returns an unsubscribe function; getSnapshot returns the current state
+  const unsubscribe: () => void = LocaleOS.subscribe(event => {
+    if (event.type === 'ip:changed') console.log(event.ip, event.previousIp);
+  });
+  const snapshot: LocaleOSSnapshot = LocaleOS.getSnapshot();
+
+  // track returns the tracking response
+  const trackPromise: Promise<TrackingResponse> = LocaleOS.track('signup', { plan: 'pro', seats: 3 });
+
+  // flush resolves to whether a batch was delivered
+  const flushPromise: Promise<boolean> = LocaleOS.flush();
+
   // Utility functions
   const fingerprint: string = generateFingerprint();
   const persistentFingerprint: string = getPersistentFingerprint();
@@ -150,6 +179,7 @@ function testClassInstantiation() {
   const asn = analytics.getASN();
   const company = analytics.getCompany();
   analytics.clearCache();
+  const trackResult = analytics.track('button_click', { id: 'cta' });
 }
 
 // ✅ Test 5: Verify no outdated methods exist
@@ -159,9 +189,6 @@ function testNoOutdatedMethods() {
   const instance = LocaleOS as any;
 
   // Verify these don't exist at runtime
-  if ('track' in LocaleOS) {
-    throw new Error('track() method should not exist');
-  }
   if ('trackEvent' in LocaleOS) {
     throw new Error('trackEvent() method should not exist');
   }
@@ -184,6 +211,11 @@ function testConfigValidation() {
     apiKey: 'leos_test123',
   };
 
+  // Valid config with tokens instead of an API key
+  const tokenConfig: LocaleOSConfig = {
+    getToken: async () => ({ token: 'leos_token', expiresAt: Date.now() + 15 * 60 * 1000 }),
+  };
+
   // Verify outdated 'appId' property doesn't exist in type
   type ConfigKeys = keyof LocaleOSConfig;
   const validKeys: ConfigKeys[] = ['apiKey', 'analytics', 'cacheDuration'];
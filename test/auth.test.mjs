@@ -0,0 +1,166 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createClient, AuthenticationError } from '../dist/index.mjs';
+import { createServerClient, InvalidInputError } from '../dist/server.mjs';
+import { createFetch, installBrowser, jsonResponse } from './helpers.mjs';
+
+const DATA = { ip: '8.8.8.8', country_code: 'US' };
+
+/**
+ * Token provider returning "token-1", "token-2", ... with the given expiry
+ */
+function createTokens(expiresIn) {
+  let count = 0;
+  const getToken = async () => {
+    count++;
+    const token = `token-${count}`;
+    return expiresIn === undefined ? token : { token, expiresAt: new Date(Date.now() + expiresIn).toISOString() };
+  };
+  return { getToken, count: () => count };
+}
+
+/**
+ * Create a browser client with the given fetch, run the callback and remove the browser globals
+ */
+async function withClient(fetch, config, callback) {
+  const browser = installBrowser({ fetch });
+  try {
+    const client = createClient({ errorMode: 'throw', retry: false, ...config });
+    await callback(client);
+  } finally {
+    browser.restore();
+  }
+}
+
+function authorization(call) {
+  return call.init.headers.Authorization;
+}
+
+test('requests a token lazily and shares it between concurrent requests', async () => {
+  const tokens = createTokens();
+  const { fetch, calls } = createFetch(() => jsonResponse(DATA));
+
+  await withClient(fetch, { getToken: tokens.getToken, namespace: 'lazy' }, async client => {
+    assert.equal(tokens.count(), 0);
+
+    await Promise.all([client.getComprehensiveData('8.8.8.8'), client.getTimezone('1.1.1.1')]);
+    await client.getCurrency('9.9.9.9');
+
+    assert.equal(tokens.count(), 1);
+    assert.deepEqual(calls.map(authorization), ['Bearer token-1', 'Bearer token-1', 'Bearer token-1']);
+    assert.ok(calls.every(call => !('X-API-Key' in call.init.headers)));
+  });
+});
+
+test('refreshes tokens that expire within the safety margin', async () => {
+  const expiring = createTokens(10 * 1000);
+  const fresh = createTokens(10 * 60 * 1000);
+
+  const first = createFetch(() => jsonResponse(DATA));
+  await withClient(first.fetch, { getToken: expiring.getToken, namespace: 'expiring' }, async client => {
+    await client.getComprehensiveData('8.8.8.8');
+    await client.getComprehensiveData('1.1.1.1');
+  });
+  assert.equal(expiring.count(), 2);
+  assert.deepEqual(first.calls.map(authorization), ['Bearer token-1', 'Bearer token-2']);
+
+  const second = createFetch(() => jsonResponse(DATA));
+  await withClient(second.fetch, { getToken: fresh.getToken, namespace: 'fresh' }, async client => {
+    await client.getComprehensiveData('8.8.8.8');
+    await client.getComprehensiveData('1.1.1.1');
+  });
+  assert.equal(fresh.count(), 1);
+});
+
+test('replaces a token rejected with 401 once and retries the request', async () => {
+  const tokens = createTokens(10 * 60 * 1000);
+  const { fetch, calls } = createFetch(
+    () => jsonResponse({ error: 'token revoked' }, 401),
+    () => jsonResponse(DATA)
+  );
+
+  await withClient(fetch, { getToken: tokens.getToken, namespace: 'revoked' }, async client => {
+    assert.deepEqual(await client.getComprehensiveData('8.8.8.8'), DATA);
+    // The new token is kept for later requests
+    await client.getComprehensiveData('1.1.1.1');
+  });
+
+  assert.equal(tokens.count(), 2);
+  assert.deepEqual(calls.map(authorization), ['Bearer token-1', 'Bearer token-2', 'Bearer token-2']);
+});
+
+test('fails when the fresh token is rejected too', async () => {
+  const tokens = createTokens();
+  const { fetch, calls } = createFetch(() => jsonResponse({ error: 'invalid token' }, 401));
+
+  await withClient(fetch, { getToken: tokens.getToken, namespace: 'rejected' }, async client => {
+    await assert.rejects(client.getComprehensiveData('8.8.8.8'), { name: 'AuthenticationError', status: 401 });
+  });
+
+  assert.equal(tokens.count(), 2);
+  assert.equal(calls.length, 2);
+});
+
+test('reports failing token providers as AuthenticationError without calling the API', async () => {
+  const { fetch, calls } = createFetch(() => jsonResponse(DATA));
+  const failing = async () => {
+    throw new Error('session expired');
+  };
+
+  await withClient(fetch, { getToken: failing, namespace: 'failing' }, async client => {
+    await assert.rejects(client.getComprehensiveData('8.8.8.8'), error => {
+      assert.ok(error instanceof AuthenticationError);
+      assert.equal(error.message, 'Failed to get a LocaleOS token: session expired');
+      return true;
+    });
+  });
+
+  await withClient(fetch, { getToken: async () => ({ token: '' }), namespace: 'empty' }, async client => {
+    await assert.rejects(client.getComprehensiveData('8.8.8.8'), {
+      name: 'AuthenticationError',
+      message: 'The getToken callback did not return a token',
+    });
+  });
+
+  assert.equal(calls.length, 0);
+});
+
+test('sends API keys in a header and does not retry their 401s', async () => {
+  const { fetch, calls } = createFetch(() => jsonResponse({ error: 'bad key' }, 401));
+
+  await withClient(fetch, { apiKey: 'leos_pk_test', namespace: 'api-key' }, async client => {
+    await assert.rejects(client.getComprehensiveData('8.8.8.8'), { name: 'AuthenticationError' });
+  });
+
+  assert.equal(calls.length, 1);
+  assert.equal(calls[0].init.headers['X-API-Key'], 'leos_pk_test');
+  assert.equal(authorization(calls[0]), undefined);
+});
+
+test('rejects secret keys in the browser and requires a credential', () => {
+  const browser = installBrowser();
+  try {
+    assert.throws(() => createClient({ apiKey: 'leos_sk_test' }), /Secret API keys must not be used in the browser/);
+    assert.throws(() => createClient({}), /An API key or getToken callback is required/);
+  } finally {
+    browser.restore();
+  }
+});
+
+test('creates tokens on the server with a secret key only', async () => {
+  const token = { token: 'token-1', expiresAt: '2030-01-01T00:00:00.000Z' };
+  const { fetch, calls } = createFetch(() => jsonResponse(token));
+
+  const server = createServerClient({ apiKey: 'leos_sk_test', fetch, errorMode: 'throw' });
+  assert.deepEqual(await server.createToken(), token);
+  assert.deepEqual(await server.createToken({ ttl: 60, scopes: ['lookup'] }), token);
+
+  assert.equal(calls[0].url, 'https://localeos.co/api/tokens');
+  assert.equal(calls[0].init.headers['X-API-Key'], 'leos_sk_test');
+  assert.deepEqual(JSON.parse(calls[0].init.body), { ttl: 900, scopes: ['lookup', 'track'] });
+  assert.deepEqual(JSON.parse(calls[1].init.body), { ttl: 60, scopes: ['lookup'] });
+
+  const publishable = createServerClient({ apiKey: 'leos_pk_test', fetch, errorMode: 'throw' });
+  await assert.rejects(publishable.createToken(), InvalidInputError);
+  assert.equal(calls.length, 2);
+});
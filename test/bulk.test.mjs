@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServerClient } from '../dist/server.mjs';
+import { createFetch, jsonResponse } from './helpers.mjs';
+
+function createClient(fetch) {
+  return createServerClient({ apiKey: 'leos_sk_test', fetch, retry: false });
+}
+
+test('matches API results echoed in another address form', async () => {
+  const { fetch, calls } = createFetch(() =>
+    jsonResponse([
+      { ip: '2001:0db8:0000:0000:0000:0000:0000:0001', country_code: 'NL' },
+      { ip: '8.8.8.8', country_code: 'US' },
+    ])
+  );
+
+  const results = await createClient(fetch).getBulkData(['2001:DB8::1', ' 8.8.8.8', '8.8.8.8']);
+
+  assert.deepEqual(JSON.parse(calls[0].init.body), ['2001:db8::1', '8.8.8.8']);
+  assert.deepEqual(Object.keys(results), ['2001:db8::1', '8.8.8.8']);
+  assert.equal(results['2001:db8::1'].data.country_code, 'NL');
+  assert.equal(results['8.8.8.8'].data.country_code, 'US');
+});
+
+test('keeps invalid inputs such as "__proto__" as plain result keys', async () => {
+  const { fetch } = createFetch(() => jsonResponse([{ ip: '1.1.1.1', country_code: 'AU' }]));
+
+  const results = await createClient(fetch).getBulkData(['__proto__', 'constructor', '1.1.1.1']);
+
+  assert.deepEqual(Object.keys(results), ['__proto__', 'constructor', '1.1.1.1']);
+  assert.equal(results['__proto__'].error.code, 'invalid_input');
+  assert.equal(results.constructor.error.code, 'invalid_input');
+  assert.equal(results['1.1.1.1'].ok, true);
+});
+
+test('reports IPs missing from the response and failed batches per IP', async () => {
+  const { fetch } = createFetch(
+    () => jsonResponse([{ ip: '1.1.1.1', country_code: 'AU' }]),
+    () => jsonResponse({ error: 'bad key' }, 401)
+  );
+
+  const results = await createClient(fetch).getBulkData(['1.1.1.1', '9.9.9.9', '8.8.8.8'], { batchSize: 2 });
+
+  assert.equal(results['1.1.1.1'].ok, true);
+  assert.equal(results['9.9.9.9'].ok, false);
+  assert.equal(results['8.8.8.8'].error.name, 'AuthenticationError');
+});
+
+test('resolves with null in silent mode when the lookup itself fails', async t => {
+  const { fetch, calls } = createFetch();
+  const logged = t.mock.method(console, 'error', () => {});
+
+  // Input that is not an array fails before any request is made
+  assert.equal(await createClient(fetch).getBulkData('8.8.8.8'), null);
+  assert.equal(calls.length, 0);
+  assert.equal(logged.mock.callCount(), 1);
+  assert.match(logged.mock.calls[0].arguments[0], /Error fetching bulk IP data/);
+
+  const throwing = createServerClient({ apiKey: 'leos_sk_test', fetch, errorMode: 'throw' });
+  await assert.rejects(throwing.getBulkData('8.8.8.8'), { name: 'LocaleOSError' });
+});
@@ -0,0 +1,136 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LocalStorageCache, SessionStorageCache, IndexedDBCache } from '../dist/index.mjs';
+import { createServerClient, MemoryCache } from '../dist/server.mjs';
+import { createFetch, installBrowser, jsonResponse } from './helpers.mjs';
+
+const DATA = { ip: '8.8.8.8', country_code: 'US', currency: { code: 'USD' } };
+
+test('expires memory cache entries after their TTL, and never with a TTL of 0', t => {
+  t.mock.timers.enable({ apis: ['Date'], now: 1_000_000 });
+  const cache = new MemoryCache();
+
+  cache.set('short', 'a', 1000);
+  cache.set('forever', 'b', 0);
+  assert.equal(cache.get('short'), 'a');
+
+  t.mock.timers.tick(999);
+  assert.equal(cache.get('short'), 'a');
+
+  t.mock.timers.tick(1);
+  assert.equal(cache.get('short'), null);
+  assert.equal(cache.get('forever'), 'b');
+
+  t.mock.timers.tick(365 * 24 * 60 * 60 * 1000);
+  assert.equal(cache.get('forever'), 'b');
+  assert.equal(cache.get('missing'), null);
+});
+
+test('evicts the least recently used memory cache entry', () => {
+  const cache = new MemoryCache(2);
+
+  cache.set('a', 1, 0);
+  cache.set('b', 2, 0);
+  // Reading "a" makes "b" the least recently used
+  assert.equal(cache.get('a'), 1);
+  cache.set('c', 3, 0);
+
+  assert.equal(cache.get('b'), null);
+  assert.equal(cache.get('a'), 1);
+  assert.equal(cache.get('c'), 3);
+
+  cache.delete('a');
+  assert.equal(cache.get('a'), null);
+  cache.clear();
+  assert.equal(cache.get('c'), null);
+});
+
+for (const [name, Cache, area] of [
+  ['LocalStorageCache', LocalStorageCache, 'localStorage'],
+  ['SessionStorageCache', SessionStorageCache, 'sessionStorage'],
+]) {
+  test(`${name} stores entries under its prefix and drops expired ones`, t => {
+    const browser = installBrowser();
+    t.mock.timers.enable({ apis: ['Date'], now: 1_000_000 });
+
+    try {
+      const storage = globalThis[area];
+      storage.setItem('unrelated', 'kept');
+      const cache = new Cache('test:');
+
+      cache.set('short', { city: 'Berlin' }, 1000);
+      cache.set('forever', 'b', 0);
+      assert.deepEqual(JSON.parse(storage.getItem('test:short')), { value: { city: 'Berlin' }, expiresAt: 1_001_000 });
+      assert.deepEqual(cache.get('short'), { city: 'Berlin' });
+
+      t.mock.timers.tick(1000);
+      assert.equal(cache.get('short'), null);
+      assert.equal(storage.getItem('test:short'), null);
+      assert.equal(cache.get('forever'), 'b');
+
+      cache.clear();
+      assert.equal(storage.getItem('test:forever'), null);
+      assert.equal(storage.getItem('unrelated'), 'kept');
+      assert.equal(new Cache().get('missing'), null);
+    } finally {
+      browser.restore();
+    }
+  });
+}
+
+test('logs and ignores storage failures instead of throwing', async t => {
+  const browser = installBrowser();
+  const warn = t.mock.method(console, 'warn', () => {});
+
+  try {
+    const cache = new LocalStorageCache('test:');
+    globalThis.localStorage.setItem('test:corrupt', '{not json');
+    assert.equal(cache.get('corrupt'), null);
+
+    globalThis.localStorage.setItem = () => {
+      throw new Error('QuotaExceededError');
+    };
+    assert.doesNotThrow(() => cache.set('full', 'value', 1000));
+    assert.equal(cache.get('full'), null);
+
+    // IndexedDB is not available here, so every call resolves without a value
+    const indexedDB = new IndexedDBCache();
+    assert.equal(await indexedDB.get('key'), null);
+    await indexedDB.set('key', 'value', 1000);
+
+    assert.deepEqual(
+      warn.mock.calls.map(call => call.arguments[0]),
+      [
+        '[LocaleOS] Failed to read cache from storage:',
+        '[LocaleOS] Failed to save cache to storage:',
+        '[LocaleOS] Failed to read cache from IndexedDB:',
+        '[LocaleOS] Failed to save cache to IndexedDB:',
+      ]
+    );
+  } finally {
+    browser.restore();
+  }
+});
+
+test('serves server lookups from the cache until cacheDuration expires', async t => {
+  t.mock.timers.enable({ apis: ['Date'], now: 1_000_000 });
+  const { fetch, calls } = createFetch(() => jsonResponse(DATA));
+  const cache = new MemoryCache();
+  const client = createServerClient({ apiKey: 'leos_sk_test', fetch, cache, cacheDuration: 60 * 1000 });
+
+  assert.deepEqual(await client.getComprehensiveData('8.8.8.8'), DATA);
+  assert.deepEqual(await client.getComprehensiveData('8.8.8.8'), DATA);
+  // Sub-resources are read from cached comprehensive data
+  assert.deepEqual(await client.getCurrency('8.8.8.8'), DATA.currency);
+  assert.equal(calls.length, 1);
+  assert.deepEqual(cache.get('comprehensive:8.8.8.8'), DATA);
+
+  t.mock.timers.tick(60 * 1000);
+  await client.getComprehensiveData('8.8.8.8');
+  assert.equal(calls.length, 2);
+
+  const uncached = createServerClient({ apiKey: 'leos_sk_test', fetch, cache: new MemoryCache(), cacheDuration: 0 });
+  await uncached.getComprehensiveData('8.8.8.8');
+  await uncached.getComprehensiveData('8.8.8.8');
+  assert.equal(calls.length, 4);
+});
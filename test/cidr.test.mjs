@@ -0,0 +1,137 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCIDR, isCIDR, isInCIDR, getCIDRInfo, compareIPs, sortIPs, IPSet } from '../dist/index.mjs';
+
+test('parses /0 blocks as covering every address of their version', () => {
+  assert.deepEqual(getCIDRInfo('0.0.0.0/0'), {
+    version: 4,
+    network: '0.0.0.0',
+    prefix: 0,
+    bytes: [0, 0, 0, 0],
+    cidr: '0.0.0.0/0',
+    broadcast: '255.255.255.255',
+    first: '0.0.0.0',
+    last: '255.255.255.255',
+    size: 2n ** 32n,
+  });
+  assert.equal(getCIDRInfo('::/0').size, 2n ** 128n);
+  assert.equal(getCIDRInfo('::/0').last, 'ffff:ffff:ffff:ffff:ffff:ffff:ffff:ffff');
+
+  assert.equal(isInCIDR('203.0.113.9', '0.0.0.0/0'), true);
+  assert.equal(isInCIDR('2001:db8::1', '::/0'), true);
+  // /0 does not cross IP versions
+  assert.equal(isInCIDR('2001:db8::1', '0.0.0.0/0'), false);
+  assert.equal(isInCIDR('203.0.113.9', '::/0'), false);
+});
+
+test('treats /32, /128 and bare addresses as single-address blocks', () => {
+  assert.equal(getCIDRInfo('192.0.2.1/32').size, 1n);
+  assert.equal(getCIDRInfo('192.0.2.1/32').last, '192.0.2.1');
+  assert.equal(getCIDRInfo('2001:db8::1/128').size, 1n);
+  assert.deepEqual(parseCIDR('192.0.2.1'), parseCIDR('192.0.2.1/32'));
+  assert.deepEqual(parseCIDR('2001:db8::1'), parseCIDR('2001:db8::1/128'));
+
+  assert.equal(isInCIDR('192.0.2.1', '192.0.2.1/32'), true);
+  assert.equal(isInCIDR('192.0.2.2', '192.0.2.1/32'), false);
+  assert.equal(isInCIDR('2001:db8::1', '2001:db8::1/128'), true);
+  assert.equal(isInCIDR('2001:db8::2', '2001:db8::1/128'), false);
+});
+
+test('clears host bits of non-aligned network addresses', () => {
+  assert.equal(parseCIDR('192.0.2.77/24').network, '192.0.2.0');
+  assert.equal(parseCIDR('10.1.2.3/9').network, '10.0.0.0');
+  assert.equal(parseCIDR('10.255.2.3/9').network, '10.128.0.0');
+  assert.equal(parseCIDR('2001:db8:abcd:1234::1/36').network, '2001:db8:a000::');
+
+  const info = getCIDRInfo('172.16.5.9/20');
+  assert.equal(info.cidr, '172.16.0.0/20');
+  assert.equal(info.first, '172.16.0.0');
+  assert.equal(info.last, '172.16.15.255');
+  assert.equal(info.size, 4096n);
+
+  assert.equal(isInCIDR('10.127.255.255', '10.1.2.3/9'), true);
+  assert.equal(isInCIDR('10.128.0.0', '10.1.2.3/9'), false);
+});
+
+test('matches IPv4-mapped IPv6 addresses and blocks as IPv4', () => {
+  assert.equal(isInCIDR('::ffff:192.0.2.1', '192.0.2.0/24'), true);
+  assert.equal(isInCIDR('::ffff:c000:201', '192.0.2.0/24'), true);
+  assert.equal(isInCIDR('192.0.2.1', '::ffff:192.0.2.0/120'), true);
+  assert.equal(isInCIDR('192.0.3.1', '::ffff:192.0.2.0/120'), false);
+
+  // The ::ffff: prefix counts towards the prefix length
+  assert.deepEqual(parseCIDR('::ffff:192.0.2.0/120'), parseCIDR('192.0.2.0/24'));
+  assert.equal(parseCIDR('::ffff:192.0.2.0/96').prefix, 0);
+  assert.equal(parseCIDR('::ffff:192.0.2.0/95'), null);
+});
+
+test('rejects malformed input', () => {
+  const invalid = [
+    '',
+    '/24',
+    '192.0.2.0/',
+    '192.0.2.0/33',
+    '2001:db8::/129',
+    '192.0.2.0/-1',
+    '192.0.2.0/8.5',
+    '192.0.2.0/0x10',
+    '192.0.2.0/24/8',
+    '192.0.2/24',
+    '256.0.0.0/8',
+    'fe80::1%eth0/64',
+    'not-a-cidr',
+    null,
+    undefined,
+    24,
+  ];
+
+  for (const value of invalid) {
+    assert.equal(parseCIDR(value), null, `parseCIDR(${JSON.stringify(value)})`);
+    assert.equal(isCIDR(value), false);
+    assert.equal(getCIDRInfo(value), null);
+    assert.equal(isInCIDR('192.0.2.1', value), false);
+  }
+
+  assert.equal(isInCIDR('not-an-ip', '0.0.0.0/0'), false);
+  assert.equal(parseCIDR(' 192.0.2.0/24 ').network, '192.0.2.0');
+});
+
+test('sorts addresses numerically with IPv4 first and invalid input last', () => {
+  assert.deepEqual(sortIPs(['2001:db8::1', 'bogus', '10.0.0.10', '10.0.0.9', '::ffff:10.0.0.8', '::1']), [
+    '::ffff:10.0.0.8',
+    '10.0.0.9',
+    '10.0.0.10',
+    '::1',
+    '2001:db8::1',
+    'bogus',
+  ]);
+  assert.equal(compareIPs('10.0.0.1', '::ffff:10.0.0.1'), 0);
+  assert.equal(compareIPs('bogus', 'also-bogus'), 0);
+});
+
+test('IPSet matches addresses against nested, single-address and /0 entries', () => {
+  const set = new IPSet(['10.0.0.0/8', '10.1.0.0/16', '192.0.2.77/32', '2001:db8::/32', 'not-a-cidr']);
+
+  assert.equal(set.size, 4);
+  assert.deepEqual(set.toArray(), ['10.0.0.0/8', '10.1.0.0/16', '192.0.2.77/32', '2001:db8::/32']);
+  assert.equal(set.has('10.200.1.1'), true);
+  assert.equal(set.has('10.1.2.3'), true);
+  assert.equal(set.has('11.0.0.1'), false);
+  assert.equal(set.has('192.0.2.77'), true);
+  assert.equal(set.has('192.0.2.78'), false);
+  assert.equal(set.has('::ffff:10.0.0.1'), true);
+  assert.equal(set.has('2001:db8:ffff::1'), true);
+  assert.equal(set.has('2001:db9::1'), false);
+  assert.equal(set.has('not-an-ip'), false);
+
+  // A narrower block added after a wider one is still covered
+  const widening = new IPSet(['10.1.0.0/16']);
+  assert.equal(widening.has('10.2.0.1'), false);
+  assert.equal(widening.add('10.0.0.0/8'), true);
+  assert.equal(widening.has('10.2.0.1'), true);
+  assert.equal(widening.add('bogus/8'), false);
+
+  const everything = new IPSet(['0.0.0.0/0']);
+  assert.equal(everything.has('255.255.255.255'), true);
+  assert.equal(everything.has('::1'), false);
+});
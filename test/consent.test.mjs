@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createClient } from '../dist/index.mjs';
+import { createFetch, installBrowser, jsonResponse, tick } from './helpers.mjs';
+
+function trackCalls(calls) {
+  return calls.filter(call => call.url.endsWith('/api/track'));
+}
+
+test('sends nothing and stores only the choice until consent is granted', async () => {
+  const { fetch, calls } = createFetch(() => jsonResponse({ success: true, logId: 'log_1' }));
+  const browser = installBrowser({ fetch });
+
+  try {
+    const client = createClient({ apiKey: 'leos_pk_test', analytics: true, consent: 'pending', namespace: 'pending' });
+    await tick();
+
+    assert.deepEqual(await client.track('signup'), { success: false, error: 'Analytics consent not granted' });
+    assert.equal(trackCalls(calls).length, 0);
+    assert.equal(browser.localStorage.length, 0);
+
+    client.setConsent({ analytics: true, fingerprinting: true, storage: true });
+    await tick();
+
+    assert.equal(trackCalls(calls).length, 1);
+    assert.ok(browser.localStorage.getItem('localeos_pending_consent'));
+    assert.ok(browser.localStorage.getItem('localeos_pending_fingerprint'));
+  } finally {
+    browser.restore();
+  }
+});
+
+test('treats Global Privacy Control as refusing analytics and fingerprinting', async () => {
+  const { fetch, calls } = createFetch(() => jsonResponse({ success: true, logId: 'log_1' }));
+  const browser = installBrowser({ fetch, navigator: { globalPrivacyControl: true } });
+
+  try {
+    const client = createClient({ apiKey: 'leos_pk_test', analytics: true, consent: 'auto', namespace: 'gpc' });
+    await tick();
+
+    assert.equal(client.getConsent().analytics, false);
+    assert.equal(client.getConsent().fingerprinting, false);
+    assert.equal(trackCalls(calls).length, 0);
+  } finally {
+    browser.restore();
+  }
+});
@@ -0,0 +1,109 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  compareFingerprints,
+  generateFingerprint,
+  registerFingerprintCollector,
+  unregisterFingerprintCollector,
+  runFingerprintCollectors,
+} from '../dist/index.mjs';
+
+const COMPONENTS = {
+  userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:128.0) Gecko/20100101 Firefox/128.0',
+  language: 'en-US',
+  colorDepth: 24,
+  hardwareConcurrency: 8,
+  screenResolution: '1920x1080',
+  availableScreenResolution: '1920x1040',
+  timezoneOffset: 0,
+  timezone: 'UTC',
+  sessionStorage: true,
+  localStorage: true,
+  indexedDb: true,
+  platform: 'Win32',
+  plugins: 'PDF Viewer',
+};
+
+async function fingerprintWith(collect) {
+  registerFingerprintCollector({ name: 'flaky', collect });
+  try {
+    const extended = await runFingerprintCollectors({ collectorTimeout: 20 });
+    return { extended, id: generateFingerprint({ ...COMPONENTS, extended }, { deterministic: true }) };
+  } finally {
+    unregisterFingerprintCollector('flaky');
+  }
+}
+
+test('records failed and timed out collectors as null', async () => {
+  const failed = await fingerprintWith(() => {
+    throw new Error('blocked');
+  });
+  const timedOut = await fingerprintWith(() => new Promise(() => {}));
+  const unsupported = await fingerprintWith(() => null);
+
+  assert.deepEqual(failed.extended, { flaky: null });
+  assert.deepEqual(timedOut.extended, { flaky: null });
+  assert.equal(failed.id, timedOut.id);
+  assert.equal(failed.id, unsupported.id);
+});
+
+test('derives the same deterministic ID from the same collector values', async () => {
+  const first = await fingerprintWith(() => 'signal');
+  const second = await fingerprintWith(async () => 'signal');
+
+  assert.deepEqual(first.extended, { flaky: 'signal' });
+  assert.equal(first.id, second.id);
+  assert.notEqual(first.id, generateFingerprint(COMPONENTS, { deterministic: true }));
+});
+
+test('compares identical components as fully similar', () => {
+  const comparison = compareFingerprints(COMPONENTS, { ...COMPONENTS });
+
+  assert.equal(comparison.similarity, 1);
+  assert.deepEqual(comparison.changed, []);
+  assert.deepEqual(comparison.unchanged.sort(), Object.keys(COMPONENTS).sort());
+  assert.equal(compareFingerprints({}, {}).similarity, 1);
+});
+
+test('weights changed components by their entropy', () => {
+  // The components carry 29.6 bits in total; the user agent 10 of them, the color depth 0.6
+  const browserUpdate = compareFingerprints(COMPONENTS, { ...COMPONENTS, userAgent: 'Firefox/129.0' });
+  assert.equal(browserUpdate.similarity, 0.662);
+  assert.deepEqual(browserUpdate.changed, ['userAgent']);
+
+  const newDisplay = compareFingerprints(COMPONENTS, { ...COMPONENTS, colorDepth: 30 });
+  assert.equal(newDisplay.similarity, 0.98);
+  assert.ok(newDisplay.similarity > browserUpdate.similarity);
+
+  // Components missing on one side count as changed, in either direction
+  const added = compareFingerprints(COMPONENTS, { ...COMPONENTS, deviceMemory: 8 });
+  assert.equal(added.similarity, 0.961);
+  assert.deepEqual(added.changed, ['deviceMemory']);
+  assert.equal(compareFingerprints({ ...COMPONENTS, deviceMemory: 8 }, COMPONENTS).similarity, 0.961);
+});
+
+test('weights extended signals by their collector entropy', () => {
+  const before = { ...COMPONENTS, extended: { fonts: 'Arial,Calibri', custom: 'x' } };
+
+  // Built-in "fonts" collector: 7 bits; unregistered signals: 1 bit
+  const fontsChanged = compareFingerprints(before, { ...COMPONENTS, extended: { fonts: 'Arial', custom: 'x' } });
+  assert.equal(fontsChanged.similarity, 0.814);
+  assert.deepEqual(fontsChanged.changed, ['fonts']);
+
+  const customChanged = compareFingerprints(before, {
+    ...COMPONENTS,
+    extended: { fonts: 'Arial,Calibri', custom: 'y' },
+  });
+  assert.equal(customChanged.similarity, 0.973);
+  assert.deepEqual(customChanged.changed, ['custom']);
+});
+
+test('compares long values such as canvas data by their hash', () => {
+  const canvas = `data:image/png;base64,${'A'.repeat(1000)}`;
+  const before = { ...COMPONENTS, canvas };
+
+  assert.equal(compareFingerprints(before, { ...COMPONENTS, canvas: `${canvas}` }).similarity, 1);
+  const changed = compareFingerprints(before, { ...COMPONENTS, canvas: `${canvas}B` });
+  assert.deepEqual(changed.changed, ['canvas']);
+  assert.equal(changed.similarity, 0.781);
+});
@@ -0,0 +1,147 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateGeoRules, matchesGeoCondition, InvalidInputError } from '../dist/index.mjs';
+
+const BERLIN = {
+  ip: '203.0.113.7',
+  country_code: 'DE',
+  continent_code: 'EU',
+  is_eu: true,
+  region: 'Berlin',
+  region_code: 'BE',
+  city: 'Berlin',
+  asn: { asn: 'AS3320', name: 'Deutsche Telekom AG', type: 'isp' },
+  privacy: { vpn: false, proxy: false, tor: false, relay: false, hosting: false },
+  device: { type: 'Mobile', is_bot: false },
+};
+
+const LOCATION_INFO = {
+  ip: '198.51.100.4',
+  countryCode: 'fr',
+  city: 'Paris',
+  region: 'Île-de-France',
+  deviceInfo: { client: { device: 'desktop' } },
+};
+
+test('matches each condition key against comprehensive data', () => {
+  const matching = [
+    {},
+    { country: 'de' },
+    { country: ['US', 'DE'] },
+    { continent: 'eu' },
+    { eu: true },
+    { region: 'berlin' },
+    { region: 'BE' },
+    { city: ['Hamburg', 'Berlin'] },
+    { asn: 3320 },
+    { asn: ['AS15169', 'as3320'] },
+    { cidr: '203.0.113.0/24' },
+    { device: 'mobile' },
+    { country: 'DE', city: 'Berlin', eu: true },
+    { all: [{ country: 'DE' }, { continent: 'EU' }] },
+    { any: [{ country: 'FR' }, { city: 'Berlin' }] },
+    { not: { country: 'FR' } },
+  ];
+  const failing = [
+    { country: 'FR' },
+    { continent: ['NA', 'AS'] },
+    { eu: false },
+    { region: 'Bavaria' },
+    { asn: 15169 },
+    { cidr: ['198.51.100.0/24', '2001:db8::/32'] },
+    { privacy: ['vpn', 'tor'] },
+    { device: 'bot' },
+    { country: 'DE', city: 'Munich' },
+    { all: [{ country: 'DE' }, { continent: 'NA' }] },
+    { any: [{ country: 'FR' }, { city: 'Munich' }] },
+    { any: [] },
+    { not: {} },
+  ];
+
+  for (const condition of matching) {
+    assert.equal(matchesGeoCondition(condition, BERLIN), true, JSON.stringify(condition));
+  }
+  for (const condition of failing) {
+    assert.equal(matchesGeoCondition(condition, BERLIN), false, JSON.stringify(condition));
+  }
+});
+
+test('derives privacy flags, bots and EU membership from related fields', () => {
+  const hosting = { ...BERLIN, asn: { asn: 'AS16509', type: 'hosting' } };
+  assert.equal(matchesGeoCondition({ privacy: 'hosting' }, hosting), true);
+  assert.equal(matchesGeoCondition({ privacy: 'tor' }, { ...BERLIN, security: { is_tor_exit: true } }), true);
+  assert.equal(matchesGeoCondition({ device: 'bot' }, { ...BERLIN, device: { type: 'desktop', is_bot: true } }), true);
+
+  // Without is_eu, EU membership falls back to the member list
+  const { is_eu, ...withoutFlag } = BERLIN;
+  assert.equal(matchesGeoCondition({ eu: true }, withoutFlag), true);
+  assert.equal(matchesGeoCondition({ eu: false }, { ...withoutFlag, country_code: 'CH' }), true);
+  // An explicit flag wins over the list
+  assert.equal(matchesGeoCondition({ eu: false }, { ...BERLIN, is_eu: false }), true);
+});
+
+test('matches LocationInfo and never matches fields it does not include', () => {
+  assert.equal(matchesGeoCondition({ country: 'FR', eu: true, city: 'paris' }, LOCATION_INFO), true);
+  assert.equal(matchesGeoCondition({ region: 'île-de-france', device: 'desktop' }, LOCATION_INFO), true);
+  assert.equal(matchesGeoCondition({ cidr: '198.51.100.0/24' }, LOCATION_INFO), true);
+
+  assert.equal(matchesGeoCondition({ asn: 'AS3215' }, LOCATION_INFO), false);
+  assert.equal(matchesGeoCondition({ continent: 'EU' }, LOCATION_INFO), false);
+  assert.equal(matchesGeoCondition({ privacy: 'vpn' }, LOCATION_INFO), false);
+  assert.equal(matchesGeoCondition({ not: { asn: 'AS3215' } }, LOCATION_INFO), true);
+  assert.equal(matchesGeoCondition({ cidr: '0.0.0.0/0' }, { ...LOCATION_INFO, ip: '' }), false);
+});
+
+test('returns the variant of the first matching rule', () => {
+  const rules = [
+    { id: 'sanctions', when: { country: ['CU', 'IR', 'KP', 'SY'] }, variant: 'blocked' },
+    { id: 'germany', when: { country: 'DE' }, variant: 'de' },
+    { id: 'eu', when: { eu: true }, variant: 'eu' },
+    { when: {}, variant: 'default' },
+  ];
+
+  assert.equal(evaluateGeoRules(rules, BERLIN), 'de');
+  assert.equal(evaluateGeoRules(rules, LOCATION_INFO), 'eu');
+  assert.equal(evaluateGeoRules(rules, { ...BERLIN, country_code: 'IR', is_eu: false }), 'blocked');
+  assert.equal(evaluateGeoRules(rules, { ...BERLIN, country_code: 'US', is_eu: false }), 'default');
+
+  // Order decides between overlapping rules
+  assert.equal(evaluateGeoRules([rules[2], rules[1]], BERLIN), 'eu');
+
+  // Without a default rule, nothing matches
+  assert.equal(evaluateGeoRules(rules.slice(0, 3), { ...BERLIN, country_code: 'US', is_eu: false }), null);
+  assert.equal(evaluateGeoRules([], BERLIN), null);
+
+  // Variants are returned as is, including falsy ones
+  assert.equal(evaluateGeoRules([{ when: {}, variant: 0 }], BERLIN), 0);
+  const variant = { currency: 'EUR' };
+  assert.equal(evaluateGeoRules([{ when: { eu: true }, variant }], BERLIN), variant);
+});
+
+test('rejects unknown condition keys and operators, even in branches that are never evaluated', () => {
+  const invalid = [
+    { countryCode: 'DE' },
+    { $in: { country: ['DE'] } },
+    { or: [{ country: 'DE' }] },
+    { any: [{ country: 'DE' }, { citty: 'Berlin' }] },
+    { all: [{ not: { contry: 'FR' } }] },
+    { not: { eq: 'DE' } },
+    { any: { country: 'DE' } },
+    { all: 'DE' },
+    { not: null },
+    null,
+    [],
+    'country=DE',
+  ];
+
+  for (const condition of invalid) {
+    assert.throws(() => matchesGeoCondition(condition, BERLIN), InvalidInputError, JSON.stringify(condition));
+    assert.throws(
+      () => evaluateGeoRules([{ when: {}, variant: 'default' }, { when: condition, variant: 'typo' }], BERLIN),
+      InvalidInputError,
+      JSON.stringify(condition)
+    );
+  }
+
+  assert.throws(() => matchesGeoCondition({ contry: 'DE' }, BERLIN), { message: 'Unknown geo rule condition: contry' });
+});
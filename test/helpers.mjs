@@ -0,0 +1,118 @@
+/**
+ * Shared helpers for behavior tests
+ * Tests run against the built package, so run `npm test` (which builds first)
+ */
+
+/**
+ * Build a minimal fetch Response
+ */
+export function jsonResponse(body, status = 200, headers = {}) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(headers),
+    json: async () => body,
+  };
+}
+
+/**
+ * Create a fetch stub that answers each call with the next handler's result
+ * The last handler is reused once the list runs out; every call is recorded
+ */
+export function createFetch(...handlers) {
+  const calls = [];
+  const fetch = (url, init = {}) => {
+    calls.push({ url, init });
+    const handler = handlers[Math.min(calls.length - 1, handlers.length - 1)];
+    return Promise.resolve(handler(url, init));
+  };
+  return { fetch, calls };
+}
+
+/**
+ * Fetch handler that never responds until the request is aborted, like a hanging API
+ */
+export function hang(url, init) {
+  return new Promise((resolve, reject) => {
+    init.signal?.addEventListener('abort', () => reject(init.signal.reason));
+  });
+}
+
+/**
+ * Minimal in-memory Web Storage
+ */
+export function createStorage() {
+  const data = new Map();
+  return {
+    data,
+    get length() {
+      return data.size;
+    },
+    key: index => [...data.keys()][index] ?? null,
+    getItem: key => (data.has(key) ? data.get(key) : null),
+    setItem: (key, value) => data.set(key, String(value)),
+    removeItem: key => data.delete(key),
+    clear: () => data.clear(),
+  };
+}
+
+/**
+ * Install the browser globals the browser client needs, returning a function that removes them
+ */
+export function installBrowser({ fetch, navigator = {}, sendBeacon } = {}) {
+  const listeners = {};
+  const previous = {};
+  const globals = {
+    window: {
+      location: { href: 'https://example.com/', hostname: 'example.com' },
+      addEventListener: (type, listener) => (listeners[type] ||= []).push(listener),
+      removeEventListener: () => {},
+    },
+    document: {
+      referrer: '',
+      visibilityState: 'visible',
+      createElement: () => ({ getContext: () => null }),
+      addEventListener: (type, listener) => (listeners[type] ||= []).push(listener),
+      removeEventListener: () => {},
+    },
+    navigator: {
+      userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:128.0) Gecko/20100101 Firefox/128.0',
+      language: 'en-US',
+      languages: ['en-US'],
+      platform: 'Win32',
+      hardwareConcurrency: 8,
+      plugins: { length: 5 },
+      webdriver: false,
+      onLine: true,
+      sendBeacon,
+      ...navigator,
+    },
+    screen: { width: 1920, height: 1080, colorDepth: 24, availWidth: 1920, availHeight: 1040 },
+    localStorage: createStorage(),
+    sessionStorage: createStorage(),
+    fetch,
+  };
+
+  for (const [name, value] of Object.entries(globals)) {
+    previous[name] = Object.getOwnPropertyDescriptor(globalThis, name);
+    Object.defineProperty(globalThis, name, { value, configurable: true, writable: true });
+  }
+
+  return {
+    listeners,
+    localStorage: globals.localStorage,
+    restore() {
+      for (const [name, descriptor] of Object.entries(previous)) {
+        if (descriptor) Object.defineProperty(globalThis, name, descriptor);
+        else delete globalThis[name];
+      }
+    },
+  };
+}
+
+/**
+ * Wait for pending promises and timers scheduled with a zero delay
+ */
+export function tick(ms = 0) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
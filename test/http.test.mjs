@@ -0,0 +1,164 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createServerClient,
+  AbortError,
+  CircuitOpenError,
+  RateLimitError,
+  TimeoutError,
+} from '../dist/server.mjs';
+import { createFetch, hang, jsonResponse } from './helpers.mjs';
+
+const DATA = { ip: '8.8.8.8', country_code: 'US' };
+
+function createClient(fetch, config = {}) {
+  return createServerClient({
+    apiKey: 'leos_sk_test',
+    fetch,
+    errorMode: 'throw',
+    retry: { baseDelay: 1, maxDelay: 10 },
+    ...config,
+  });
+}
+
+test('retries 5xx responses and resolves with the first success', async () => {
+  const { fetch, calls } = createFetch(
+    () => jsonResponse({ error: 'down' }, 503),
+    () => jsonResponse({ error: 'down' }, 502),
+    () => jsonResponse(DATA)
+  );
+
+  assert.deepEqual(await createClient(fetch).getComprehensiveData('8.8.8.8'), DATA);
+  assert.equal(calls.length, 3);
+});
+
+test('does not retry client errors', async () => {
+  const { fetch, calls } = createFetch(() => jsonResponse({ error: 'bad key' }, 401));
+
+  await assert.rejects(createClient(fetch).getComprehensiveData('8.8.8.8'), { name: 'AuthenticationError' });
+  assert.equal(calls.length, 1);
+});
+
+test('uses a string error or message from the response body and ignores other shapes', async () => {
+  const cases = [
+    [{ error: 'bad key' }, 'bad key'],
+    [{ message: 'key revoked' }, 'key revoked'],
+    [{ error: { code: 'revoked' } }, 'API returned status 403'],
+    [['bad key'], 'API returned status 403'],
+    [null, 'API returned status 403'],
+  ];
+
+  for (const [body, message] of cases) {
+    const { fetch } = createFetch(() => jsonResponse(body, 403));
+    await assert.rejects(createClient(fetch).getComprehensiveData('8.8.8.8'), { name: 'AuthenticationError', message });
+  }
+});
+
+test('waits for Retry-After on 429 and fails fast when it exceeds maxDelay', async () => {
+  const short = createFetch(() => jsonResponse({}, 429, { 'Retry-After': '0' }), () => jsonResponse(DATA));
+  assert.deepEqual(await createClient(short.fetch).getComprehensiveData('8.8.8.8'), DATA);
+  assert.equal(short.calls.length, 2);
+
+  const long = createFetch(() => jsonResponse({}, 429, { 'Retry-After': '60' }));
+  await assert.rejects(createClient(long.fetch).getComprehensiveData('8.8.8.8'), RateLimitError);
+  assert.equal(long.calls.length, 1);
+});
+
+test('gives each attempt its own timeout and retries timed out attempts', async () => {
+  const { fetch, calls } = createFetch(hang, () => jsonResponse(DATA));
+
+  assert.deepEqual(await createClient(fetch, { timeout: 20 }).getComprehensiveData('8.8.8.8'), DATA);
+  assert.equal(calls.length, 2);
+});
+
+test('rejects with TimeoutError once every attempt timed out', async () => {
+  const { fetch, calls } = createFetch(hang);
+
+  await assert.rejects(createClient(fetch, { timeout: 20 }).getComprehensiveData('8.8.8.8'), TimeoutError);
+  assert.equal(calls.length, 3);
+});
+
+test('opens the circuit after repeated timeouts', async () => {
+  const { fetch, calls } = createFetch(hang);
+  const client = createClient(fetch, { timeout: 10, circuitBreaker: { threshold: 2, cooldown: 60000 } });
+  const warn = console.warn;
+  console.warn = () => {};
+
+  try {
+    const errors = [];
+    for (let i = 0; i < 5; i++) {
+      errors.push(await client.getComprehensiveData(`8.8.8.${i}`).catch(error => error));
+    }
+
+    assert.ok(errors[0] instanceof TimeoutError);
+    assert.ok(errors[1] instanceof TimeoutError);
+    assert.ok(errors.slice(2).every(error => error instanceof CircuitOpenError));
+    assert.equal(calls.length, 6);
+  } finally {
+    console.warn = warn;
+  }
+});
+
+test('lets one trial request through after the cooldown', async () => {
+  const { fetch } = createFetch(
+    () => jsonResponse({}, 500),
+    () => jsonResponse({}, 500),
+    () => jsonResponse(DATA)
+  );
+  const client = createClient(fetch, { retry: false, circuitBreaker: { threshold: 2, cooldown: 20 } });
+  const warn = console.warn;
+  console.warn = () => {};
+
+  try {
+    await assert.rejects(client.getComprehensiveData('1.1.1.1'));
+    await assert.rejects(client.getComprehensiveData('1.1.1.2'));
+    await assert.rejects(client.getComprehensiveData('1.1.1.3'), CircuitOpenError);
+
+    await new Promise(resolve => setTimeout(resolve, 30));
+    assert.deepEqual(await client.getComprehensiveData('1.1.1.4'), DATA);
+  } finally {
+    console.warn = warn;
+  }
+});
+
+test('cancels a shared request only once every caller has aborted', async () => {
+  const { fetch, calls } = createFetch(
+    (url, init) => new Promise(resolve => setTimeout(() => resolve(jsonResponse(DATA)), 30))
+  );
+  const client = createClient(fetch);
+  const controller = new AbortController();
+
+  const aborted = client.getComprehensiveData('8.8.8.8', { signal: controller.signal });
+  const kept = client.getComprehensiveData('8.8.8.8');
+  controller.abort();
+
+  await assert.rejects(aborted, AbortError);
+  assert.deepEqual(await kept, DATA);
+  assert.equal(calls.length, 1);
+  assert.equal(calls[0].init.signal.aborted, false);
+});
+
+test('resolves with null for aborted calls in silent mode', async () => {
+  const { fetch } = createFetch(hang);
+  const client = createClient(fetch, { errorMode: 'silent' });
+  const controller = new AbortController();
+
+  const pending = client.getComprehensiveData('8.8.8.8', { signal: controller.signal });
+  controller.abort();
+
+  assert.equal(await pending, null);
+});
+
+test('encodes the IP address in lookup URLs', async () => {
+  const { fetch, calls } = createFetch(
+    () => jsonResponse({ status: 'success', country_code: 'NL' }),
+    () => jsonResponse({ ip: '2001:db8::1', time_zone: { name: 'Europe/Amsterdam' } })
+  );
+  const client = createClient(fetch);
+
+  assert.equal((await client.getLocationInfo('2001:db8::1')).countryCode, 'NL');
+  await client.getTimezone('2001:db8::1');
+
+  assert.equal(calls[0].url, 'https://localeos.co/api/ip-lookup?ip=2001%3Adb8%3A%3A1');
+  assert.equal(calls[1].url, 'https://localeos.co/api/ipdata/2001%3Adb8%3A%3A1/time_zone');
+});
@@ -0,0 +1,144 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createClient } from '../dist/index.mjs';
+import { createServerClient } from '../dist/server.mjs';
+import { installBrowser, jsonResponse, tick } from './helpers.mjs';
+
+const DATA = { ip: '8.8.8.8', country_code: 'US', time_zone: { name: 'America/Chicago' } };
+
+/**
+ * Fetch whose responses are released by the test, in call order
+ */
+function createDeferredFetch() {
+  const calls = [];
+  const fetch = (url, init = {}) =>
+    new Promise(resolve => {
+      calls.push({ url, init, respond: resolve });
+    });
+  return { fetch, calls };
+}
+
+function createServer(fetch) {
+  return createServerClient({ apiKey: 'leos_sk_test', fetch, errorMode: 'throw', retry: false });
+}
+
+test('shares one request between concurrent lookups of the same resource', async () => {
+  const { fetch, calls } = createDeferredFetch();
+  const client = createServer(fetch);
+
+  const lookups = [
+    client.getComprehensiveData('8.8.8.8'),
+    client.getComprehensiveData('8.8.8.8'),
+    // Another form of the same address
+    client.getComprehensiveData(' 8.8.8.8 '),
+  ];
+  await tick();
+  assert.equal(calls.length, 1);
+
+  calls[0].respond(jsonResponse(DATA));
+  const results = await Promise.all(lookups);
+  assert.deepEqual(results, [DATA, DATA, DATA]);
+});
+
+test('keeps different IPs and resources in separate requests', async () => {
+  const { fetch, calls } = createDeferredFetch();
+  const client = createServer(fetch);
+
+  const lookups = [
+    client.getComprehensiveData('8.8.8.8'),
+    client.getComprehensiveData('1.1.1.1'),
+    client.getTimezone('8.8.8.8'),
+  ];
+  await tick();
+
+  assert.deepEqual(
+    calls.map(call => call.url),
+    [
+      'https://localeos.co/api/ipdata/8.8.8.8',
+      'https://localeos.co/api/ipdata/1.1.1.1',
+      'https://localeos.co/api/ipdata/8.8.8.8/time_zone',
+    ]
+  );
+  calls.forEach(call => call.respond(jsonResponse(DATA)));
+  await Promise.all(lookups);
+});
+
+test('rejects every coalesced caller with the same error and retries on the next call', async () => {
+  const { fetch, calls } = createDeferredFetch();
+  const client = createServer(fetch);
+
+  const first = client.getComprehensiveData('8.8.8.8');
+  const second = client.getComprehensiveData('8.8.8.8');
+  await tick();
+  calls[0].respond(jsonResponse({ error: 'down' }, 503));
+
+  const errors = await Promise.all([first, second].map(lookup => lookup.catch(error => error)));
+  assert.equal(errors[0].name, 'ServerError');
+  assert.equal(errors[0], errors[1]);
+
+  // A failed request is not kept: the next lookup sends a new one
+  const retry = client.getComprehensiveData('8.8.8.8');
+  await tick();
+  assert.equal(calls.length, 2);
+  calls[1].respond(jsonResponse(DATA));
+  assert.deepEqual(await retry, DATA);
+});
+
+test('resolves with null for every coalesced caller in silent mode', async t => {
+  const { fetch, calls } = createDeferredFetch();
+  const client = createServerClient({ apiKey: 'leos_sk_test', fetch, retry: false });
+  const logged = t.mock.method(console, 'error', () => {});
+
+  const lookups = [client.getComprehensiveData('8.8.8.8'), client.getComprehensiveData('8.8.8.8')];
+  await tick();
+  calls[0].respond(jsonResponse({ error: 'bad key' }, 401));
+
+  assert.deepEqual(await Promise.all(lookups), [null, null]);
+  assert.equal(calls.length, 1);
+  assert.equal(logged.mock.callCount(), 2);
+});
+
+test('lets one caller abort without affecting the others', async () => {
+  const { fetch, calls } = createDeferredFetch();
+  const client = createServer(fetch);
+  const controller = new AbortController();
+
+  const aborted = client.getComprehensiveData('8.8.8.8', { signal: controller.signal });
+  const waiting = client.getComprehensiveData('8.8.8.8');
+  await tick();
+  controller.abort();
+
+  await assert.rejects(aborted, { name: 'AbortError' });
+  assert.equal(calls[0].init.signal.aborted, false);
+
+  calls[0].respond(jsonResponse(DATA));
+  assert.deepEqual(await waiting, DATA);
+});
+
+test('serves sub-resources from a pending comprehensive lookup in the browser', async () => {
+  const { fetch, calls } = createDeferredFetch();
+  const browser = installBrowser({ fetch });
+
+  try {
+    const client = createClient({ apiKey: 'leos_pk_test', errorMode: 'throw', retry: false, namespace: 'inflight' });
+    const comprehensive = client.getComprehensiveData();
+    const timezone = client.getTimezone();
+    await tick();
+
+    // Both lookups wait for the same IP detection
+    assert.equal(calls.length, 1);
+    assert.match(calls[0].url, /\/api\/my-ip$/);
+    calls[0].respond(jsonResponse({ ip: '8.8.8.8' }));
+    await tick();
+
+    assert.equal(calls.length, 2);
+    assert.equal(calls[1].url, 'https://localeos.co/api/ipdata/8.8.8.8');
+    calls[1].respond(jsonResponse(DATA));
+
+    assert.deepEqual(await comprehensive, DATA);
+    assert.deepEqual(await timezone, DATA.time_zone);
+    assert.equal(calls.length, 2);
+  } finally {
+    browser.restore();
+  }
+});
@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getIPRange, isBogonIP } from '../dist/index.mjs';
+
+test('classifies IPv6 transition addresses by the IPv4 address they embed', () => {
+  // NAT64
+  assert.equal(getIPRange('64:ff9b::8.8.8.8'), 'public');
+  assert.equal(getIPRange('64:ff9b::a00:1'), 'private');
+  // 6to4
+  assert.equal(getIPRange('2002:808:808::1'), 'public');
+  assert.equal(getIPRange('2002:c0a8:101::1'), 'private');
+  assert.equal(getIPRange('2002:7f00:1::'), 'loopback');
+  // Teredo, whose client address is stored inverted: 0xf5ff:fffe is 10.0.0.1
+  assert.equal(getIPRange('2001:0:4136:e378:8000:63bf:f7f7:f7f7'), 'public');
+  assert.equal(getIPRange('2001:0:4136:e378:8000:63bf:f5ff:fffe'), 'private');
+  // IPv4-mapped
+  assert.equal(getIPRange('::ffff:127.0.0.1'), 'loopback');
+});
+
+test('leaves neighbouring IPv6 ranges alone', () => {
+  assert.equal(getIPRange('2001:db8::1'), 'documentation');
+  assert.equal(getIPRange('2001:4860:4860::8888'), 'public');
+  assert.equal(getIPRange('64:ff9b:1::a00:1'), 'public');
+  assert.equal(isBogonIP('2002:a00:1::1'), true);
+  assert.equal(isBogonIP('2606:4700:4700::1111'), false);
+});
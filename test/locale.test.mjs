@@ -0,0 +1,110 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveLocale, getLocaleInfo, getMeasurementSystem, getFirstDayOfWeek } from '../dist/index.mjs';
+import { installBrowser } from './helpers.mjs';
+
+const SWITZERLAND = { country_code: 'CH', languages: ['de', 'fr', 'it'] };
+
+test('resolves the locale from preferred languages and the IP country', () => {
+  // A preferred language for the IP country wins
+  assert.equal(resolveLocale({ country_code: 'GB', languages: ['en'] }, { languages: ['en-US', 'en-GB'] }), 'en-GB');
+  // A preferred language spoken in the country gets the country as region
+  assert.equal(resolveLocale(SWITZERLAND, { languages: ['fr'] }), 'fr-CH');
+  assert.equal(resolveLocale(SWITZERLAND, { languages: ['en', 'it-IT'] }), 'it-CH');
+  // Otherwise the first preferred language is kept
+  assert.equal(resolveLocale(SWITZERLAND, { languages: ['ja-JP', 'en'] }), 'ja-JP');
+  // Without preferred languages, the country's first language is used
+  assert.equal(resolveLocale({ country_code: 'at', languages: ['de-AT', 'hr'] }, { languages: [] }), 'de-AT');
+  assert.equal(resolveLocale({}, { languages: [] }), 'en-US');
+  assert.equal(resolveLocale({ country_code: 'AQ' }, { languages: [] }), 'en-US');
+});
+
+test('canonicalizes tags and skips invalid ones', () => {
+  assert.equal(resolveLocale({}, { languages: ['EN_gb'] }), 'en-GB');
+  assert.equal(resolveLocale({ country_code: 'BR', languages: ['pt'] }, { languages: ['not a tag!', 'pt'] }), 'pt-BR');
+  assert.equal(resolveLocale({ country_code: 'MX', languages: ['es_MX'] }, { languages: ['es-419'] }), 'es-MX');
+});
+
+test('falls back to the browser languages', () => {
+  const browser = installBrowser({ navigator: { languages: ['ja-JP', 'de'], language: 'fr-FR' } });
+  try {
+    assert.equal(resolveLocale(SWITZERLAND), 'de-CH');
+    assert.equal(resolveLocale({}), 'ja-JP');
+
+    // navigator.language is used when navigator.languages is empty
+    globalThis.navigator.languages = [];
+    assert.equal(resolveLocale(SWITZERLAND), 'fr-CH');
+  } finally {
+    browser.restore();
+  }
+});
+
+test('looks up the measurement system and first day of the week per country', () => {
+  assert.equal(getMeasurementSystem('us'), 'us');
+  assert.equal(getMeasurementSystem('LR'), 'us');
+  assert.equal(getMeasurementSystem('GB'), 'uk');
+  assert.equal(getMeasurementSystem('DE'), 'metric');
+  assert.equal(getMeasurementSystem(null), 'metric');
+
+  assert.equal(getFirstDayOfWeek('DE'), 1);
+  assert.equal(getFirstDayOfWeek('us'), 7);
+  assert.equal(getFirstDayOfWeek('AE'), 6);
+  assert.equal(getFirstDayOfWeek('MV'), 5);
+  assert.equal(getFirstDayOfWeek(undefined), 1);
+});
+
+test('formats numbers, amounts and dates for the IP location', () => {
+  const info = getLocaleInfo(
+    {
+      country_code: 'DE',
+      languages: ['de'],
+      currency: { code: 'EUR' },
+      time_zone: { name: 'Europe/Berlin' },
+    },
+    { languages: ['de'] }
+  );
+  const date = new Date('2025-03-14T08:30:00Z');
+
+  assert.equal(info.locale, 'de-DE');
+  assert.equal(info.language, 'de');
+  assert.equal(info.country, 'DE');
+  assert.equal(info.currency, 'EUR');
+  assert.equal(info.timeZone, 'Europe/Berlin');
+  assert.equal(info.measurementSystem, 'metric');
+  assert.equal(info.firstDayOfWeek, 1);
+  assert.equal(info.hourCycle, 'h23');
+  assert.equal(info.formatters.number.format(1234.5), '1.234,5');
+  assert.equal(info.formatters.currency.format(1234.5), '1.234,50\u00a0€');
+  assert.equal(info.formatters.dateTime.format(date), '14.03.2025, 09:30');
+  assert.equal(info.formatters.time.format(date), '09:30');
+});
+
+test('uses the visitor locale with the IP timezone and currency', () => {
+  const info = getLocaleInfo(
+    { country_code: 'US', currency: { code: 'USD' }, time_zone: { name: 'America/New_York' } },
+    { languages: ['en-US'] }
+  );
+
+  assert.equal(info.hourCycle, 'h12');
+  assert.equal(info.measurementSystem, 'us');
+  assert.equal(info.firstDayOfWeek, 7);
+  assert.equal(info.formatters.currency.format(19.99), '$19.99');
+  // Newer ICU versions put a narrow no-break space before AM/PM
+  assert.match(info.formatters.time.format(new Date('2025-03-14T08:30:00Z')), /^4:30\sAM$/);
+});
+
+test('falls back for missing or unknown data', () => {
+  const info = getLocaleInfo(
+    { currency: { code: 'NOPE!' }, time_zone: { name: 'Mars/Olympus_Mons' } },
+    { languages: [] }
+  );
+
+  assert.equal(info.locale, 'en-US');
+  assert.equal(info.country, 'US');
+  assert.equal(info.currency, 'NOPE!');
+  assert.equal(info.formatters.currency, null);
+  assert.equal(info.timeZone, Intl.DateTimeFormat().resolvedOptions().timeZone);
+
+  assert.equal(getLocaleInfo({}, { languages: ['fr'] }).country, null);
+  assert.equal(getLocaleInfo({}, { languages: ['fr'] }).formatters.currency, null);
+});
@@ -0,0 +1,110 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import localeOS, { createClient, LocaleOSAnalytics, InvalidInputError } from '../dist/index.mjs';
+import { installBrowser, jsonResponse, tick } from './helpers.mjs';
+
+function lookupFetch(url) {
+  if (url.endsWith('/api/my-ip')) return Promise.resolve(jsonResponse({ ip: '192.0.2.1' }));
+  if (url.includes('/api/ip-lookup')) return Promise.resolve(jsonResponse({ status: 'success', country_code: 'NL' }));
+  return Promise.resolve(jsonResponse({ success: true }));
+}
+
+/**
+ * Keys currently in a storage created by installBrowser
+ */
+function storedKeys(storage) {
+  return [...storage.data.keys()].sort();
+}
+
+test('creates independent, initialized clients', () => {
+  const browser = installBrowser({ fetch: lookupFetch });
+
+  try {
+    const first = createClient({ apiKey: 'leos_pk_test', namespace: 'independent-a' });
+    const second = createClient({ apiKey: 'leos_pk_test', namespace: 'independent-b' });
+
+    assert.ok(first instanceof LocaleOSAnalytics);
+    assert.notEqual(first, second);
+    assert.notEqual(first, localeOS);
+    assert.equal(first.getConsent().analytics, true);
+
+    first.setConsent({ analytics: false });
+    assert.equal(first.getConsent().analytics, false);
+    assert.equal(second.getConsent().analytics, true);
+  } finally {
+    browser.restore();
+  }
+});
+
+test('scopes stored consent, fingerprints and cached lookups to the namespace', async () => {
+  const browser = installBrowser({ fetch: lookupFetch });
+
+  try {
+    const shop = createClient({ apiKey: 'leos_pk_test', namespace: 'shop', consent: 'pending' });
+    const blog = createClient({ apiKey: 'leos_pk_test', namespace: 'blog', consent: 'pending' });
+
+    shop.setConsent({ fingerprinting: true, storage: true });
+    await shop.getLocationInfo();
+    await tick();
+
+    const keys = storedKeys(browser.localStorage);
+    assert.ok(keys.length > 0);
+    assert.ok(keys.every(key => key.startsWith('localeos_shop_')), keys.join(', '));
+    assert.ok(keys.includes('localeos_shop_consent'));
+    assert.ok(keys.includes('localeos_shop_fingerprint'));
+    assert.ok(keys.some(key => key.startsWith('localeos_shop_cache:')));
+
+    // The other client neither sees nor clears the first client's data
+    assert.equal(blog.getConsent().storage, false);
+    blog.setConsent({ storage: true });
+    blog.clearCache();
+    await tick();
+    assert.ok(storedKeys(browser.localStorage).some(key => key.startsWith('localeos_shop_cache:')));
+    assert.ok(storedKeys(browser.localStorage).includes('localeos_blog_consent'));
+
+    // Without a namespace the unscoped keys are used
+    const unscoped = createClient({ apiKey: 'leos_pk_test', consent: 'pending' });
+    unscoped.setConsent({ storage: true });
+    assert.ok(browser.localStorage.getItem('localeos_consent'));
+  } finally {
+    browser.restore();
+  }
+});
+
+test('warns when two clients share a namespace and releases it on re-init', t => {
+  const browser = installBrowser({ fetch: lookupFetch });
+  const warn = t.mock.method(console, 'warn', () => {});
+  const warnings = () => warn.mock.calls.filter(call => /storage namespace/.test(call.arguments[0]));
+
+  try {
+    const first = createClient({ apiKey: 'leos_pk_test', namespace: 'shared' });
+    createClient({ apiKey: 'leos_pk_test', namespace: 'other' });
+    assert.equal(warnings().length, 0);
+
+    createClient({ apiKey: 'leos_pk_test', namespace: 'shared' });
+    assert.equal(warnings().length, 1);
+    assert.match(warnings()[0].arguments[0], /"shared"/);
+
+    // Moving the first client to another namespace frees "shared" and claims the new one
+    first.init({ apiKey: 'leos_pk_test', namespace: 'moved' });
+    createClient({ apiKey: 'leos_pk_test', namespace: 'shared' });
+    assert.equal(warnings().length, 1);
+    createClient({ apiKey: 'leos_pk_test', namespace: 'moved' });
+    assert.equal(warnings().length, 2);
+  } finally {
+    browser.restore();
+  }
+});
+
+test('rejects namespaces that could collide with other storage keys', () => {
+  const browser = installBrowser({ fetch: lookupFetch });
+
+  try {
+    for (const namespace of ['shop_eu', 'shop eu', 'shop:eu', '../shop', 'ünï']) {
+      assert.throws(() => createClient({ apiKey: 'leos_pk_test', namespace }), InvalidInputError, namespace);
+    }
+    assert.doesNotThrow(() => createClient({ apiKey: 'leos_pk_test', namespace: 'Shop-EU-2' }));
+  } finally {
+    browser.restore();
+  }
+});
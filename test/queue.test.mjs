@@ -0,0 +1,157 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createClient } from '../dist/index.mjs';
+import { createFetch, installBrowser, jsonResponse, tick } from './helpers.mjs';
+
+function createTab(namespace, queue = {}) {
+  return createClient({
+    apiKey: 'leos_pk_test',
+    analytics: true,
+    namespace,
+    queue: { flushInterval: 60000, ...queue },
+  });
+}
+
+function batchEvents(body) {
+  return JSON.parse(body).events.map(event => event.event);
+}
+
+function queuedEvents(queue) {
+  return queue.events.map(item => item.event.event);
+}
+
+function storedQueues(storage, namespace) {
+  const prefix = `localeos_${namespace}_event_queue:`;
+  return [...storage.data]
+    .filter(([key]) => key.startsWith(prefix))
+    .map(([, value]) => JSON.parse(value));
+}
+
+test('does not beacon a batch that a pending flush is still sending', async () => {
+  let respond;
+  const { fetch, calls } = createFetch(() => new Promise(resolve => (respond = resolve)));
+  const beacons = [];
+  const browser = installBrowser({
+    fetch,
+    sendBeacon: (url, body) => {
+      beacons.push(body);
+      return true;
+    },
+  });
+  const client = createTab('inflight', { batchSize: 2 });
+
+  try {
+    // The visit and the first event fill a batch, whose request stays pending
+    await client.track('first');
+    await tick();
+    assert.equal(calls.length, 1);
+    assert.deepEqual(batchEvents(calls[0].init.body), [undefined, 'first']);
+
+    await client.track('second');
+    browser.listeners.pagehide.forEach(listener => listener({ persisted: false }));
+
+    assert.equal(beacons.length, 1);
+    assert.deepEqual(batchEvents(await beacons[0].text()), ['second']);
+
+    respond(jsonResponse({ success: true }));
+    await tick();
+    assert.deepEqual(storedQueues(browser.localStorage, 'inflight'), []);
+  } finally {
+    client.setConsent({ analytics: false });
+    browser.restore();
+  }
+});
+
+test('keeps one entry per tab and adopts the events of closed tabs', async () => {
+  const { fetch, calls } = createFetch(() => jsonResponse({ success: true }));
+  const browser = installBrowser({ fetch, sendBeacon: () => false });
+  const warn = console.warn;
+  console.warn = () => {};
+  const tabs = [];
+
+  try {
+    const closing = createTab('tabs');
+    tabs.push(closing);
+    const closingListeners = browser.listeners.pagehide.slice();
+    await closing.track('from closing tab');
+
+    const open = createTab('tabs');
+    tabs.push(open);
+    await open.track('from open tab');
+
+    const stored = storedQueues(browser.localStorage, 'tabs');
+    assert.equal(stored.length, 2);
+    assert.deepEqual(
+      stored.map(queuedEvents),
+      [
+        [undefined, 'from closing tab'],
+        [undefined, 'from open tab'],
+      ]
+    );
+
+    // The beacon is refused, so the closing tab leaves its events behind for the next page load
+    closingListeners.forEach(listener => listener({ persisted: false }));
+    tabs.push(createTab('tabs'));
+    await tick();
+
+    assert.deepEqual(batchEvents(calls[0].init.body), [undefined, 'from closing tab']);
+
+    const remaining = storedQueues(browser.localStorage, 'tabs').map(queuedEvents);
+    assert.deepEqual(remaining[0], [undefined, 'from open tab']);
+    assert.ok(!remaining.flat().includes('from closing tab'));
+  } finally {
+    tabs.forEach(tab => tab.setConsent({ analytics: false }));
+    console.warn = warn;
+    browser.restore();
+  }
+});
+
+test('flushes every queued event in batches through the authenticated API client', async () => {
+  const { fetch, calls } = createFetch(() => jsonResponse({ success: true }));
+  const browser = installBrowser({ fetch, navigator: { onLine: false } });
+  const client = createTab('drain', { batchSize: 2 });
+
+  try {
+    for (const event of ['a', 'b', 'c', 'd']) {
+      await client.track(event);
+    }
+    assert.equal(calls.length, 0);
+
+    globalThis.navigator.onLine = true;
+    assert.equal(await client.flush(), true);
+
+    assert.deepEqual(
+      calls.map(call => batchEvents(call.init.body)),
+      [[undefined, 'a'], ['b', 'c'], ['d']]
+    );
+    assert.ok(calls.every(call => call.init.headers['X-API-Key'] === 'leos_pk_test'));
+    assert.deepEqual(storedQueues(browser.localStorage, 'drain'), []);
+  } finally {
+    client.setConsent({ analytics: false });
+    browser.restore();
+  }
+});
+
+test('stops flushing at the first failed batch and keeps the rest', async () => {
+  const { fetch, calls } = createFetch(() => jsonResponse({ error: 'down' }, 503));
+  const browser = installBrowser({ fetch, navigator: { onLine: false } });
+  const error = console.error;
+  console.error = () => {};
+  const client = createTab('failing', { batchSize: 2 });
+
+  try {
+    await client.track('a');
+    await client.track('b');
+
+    globalThis.navigator.onLine = true;
+    assert.equal(await client.flush(), false);
+
+    // Batches are not retried by the API client; the queue backs off instead
+    assert.equal(calls.length, 1);
+    assert.deepEqual(storedQueues(browser.localStorage, 'failing').map(queuedEvents), [[undefined, 'a', 'b']]);
+  } finally {
+    client.setConsent({ analytics: false });
+    console.error = error;
+    browser.restore();
+  }
+});
@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getClientIP, createFetchHandler } from '../dist/server.mjs';
+
+function nodeRequest(remoteAddress, headers = {}) {
+  return { socket: { remoteAddress }, headers };
+}
+
+const SPOOFED = {
+  'cf-connecting-ip': '6.6.6.6',
+  'x-real-ip': '6.6.6.6',
+  forwarded: 'for=6.6.6.6',
+  'x-forwarded-for': '6.6.6.6',
+};
+
+test('uses the socket address and ignores forwarding headers by default', () => {
+  assert.equal(getClientIP(nodeRequest('203.0.113.7', SPOOFED)), '203.0.113.7');
+  assert.equal(getClientIP(nodeRequest('::ffff:203.0.113.7')), '203.0.113.7');
+});
+
+test('reads a platform header only when opted in', () => {
+  const request = nodeRequest('10.0.0.1', { 'cf-connecting-ip': '198.51.100.4', 'x-real-ip': '6.6.6.6' });
+
+  assert.equal(getClientIP(request, { ipHeader: 'cf-connecting-ip' }), '198.51.100.4');
+  assert.equal(getClientIP(request, { ipHeader: 'CF-Connecting-IP' }), '198.51.100.4');
+  assert.equal(getClientIP(request), '10.0.0.1');
+});
+
+test('ignores the platform header for requests that bypassed trusted proxies', () => {
+  const options = { ipHeader: 'x-real-ip', trustedProxies: ['10.0.0.0/8'] };
+
+  assert.equal(getClientIP(nodeRequest('10.0.0.1', { 'x-real-ip': '198.51.100.4' }), options), '198.51.100.4');
+  assert.equal(getClientIP(nodeRequest('203.0.113.7', { 'x-real-ip': '6.6.6.6' }), options), '203.0.113.7');
+});
+
+test('walks X-Forwarded-For from the right, skipping trusted proxies', () => {
+  const options = { trustedProxies: ['10.0.0.0/8'] };
+  // The client prepended a forged entry; the trusted proxy appended the real peer address
+  const request = nodeRequest('10.0.0.2', { 'x-forwarded-for': '6.6.6.6, 198.51.100.4, 10.0.0.1' });
+
+  assert.equal(getClientIP(request, options), '198.51.100.4');
+});
+
+test('prefers Forwarded over X-Forwarded-For and parses quoted IPv6 with ports', () => {
+  const request = nodeRequest('10.0.0.2', {
+    forwarded: 'for=6.6.6.6, for="[2001:db8:cafe::17]:4711"',
+    'x-forwarded-for': '198.51.100.4',
+  });
+
+  assert.equal(getClientIP(request, { trustedProxies: ['10.0.0.2'] }), '2001:db8:cafe::17');
+});
+
+test('ignores forwarding headers from untrusted peers', () => {
+  const request = nodeRequest('203.0.113.7', { 'x-forwarded-for': '198.51.100.4' });
+
+  assert.equal(getClientIP(request, { trustedProxies: ['10.0.0.0/8'] }), '203.0.113.7');
+});
+
+test('returns the left-most hop when every hop is trusted', () => {
+  const request = nodeRequest('10.0.0.2', { 'x-forwarded-for': '10.0.0.5, 10.0.0.1' });
+
+  assert.equal(getClientIP(request, { trustedProxies: ['10.0.0.0/8'] }), '10.0.0.5');
+});
+
+test('fetch handler responds with the configured header or a 400', async () => {
+  const headers = { 'cf-connecting-ip': '198.51.100.4' };
+
+  const ok = await createFetchHandler({ ipHeader: 'cf-connecting-ip' })(new Request('https://x/', { headers }));
+  assert.deepEqual(await ok.json(), { ip: '198.51.100.4' });
+  assert.equal(ok.headers.get('Cache-Control'), 'no-store');
+
+  const missing = await createFetchHandler()(new Request('https://x/', { headers }));
+  assert.equal(missing.status, 400);
+});
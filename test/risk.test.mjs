@@ -0,0 +1,140 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { assessRisk } from '../dist/index.mjs';
+
+const BASE = {
+  ip: '203.0.113.7',
+  country_code: 'DE',
+  languages: ['de'],
+  time_zone: { name: 'Europe/Berlin' },
+};
+
+/**
+ * Build IP data and browser signals that raise exactly the given risk signals
+ */
+function withSignals(codes, threatLevel) {
+  const has = code => codes.includes(code);
+  const data = {
+    ...BASE,
+    privacy: { tor: has('tor'), vpn: has('vpn'), proxy: has('proxy'), relay: has('relay'), hosting: has('hosting') },
+    security: { is_threat: has('threat'), threat_level: threatLevel, is_bogon: has('bogon') },
+  };
+  const client = {
+    timeZone: has('timezone_mismatch') ? 'America/New_York' : 'Europe/Berlin',
+    languages: has('language_mismatch') ? ['ja-JP'] : ['de-DE'],
+    automation: { isBot: has('automation'), score: 1, reasons: ['webdriver'] },
+  };
+  return [data, client];
+}
+
+const CODES = [
+  'tor',
+  'automation',
+  'proxy',
+  'vpn',
+  'hosting',
+  'threat',
+  'bogon',
+  'timezone_mismatch',
+  'language_mismatch',
+  'relay',
+];
+
+const LEVELS = ['low', 'medium', 'high'];
+
+test('allows a visit when there is nothing to compare', () => {
+  assert.deepEqual(assessRisk({ ip: '203.0.113.7' }), {
+    ip: '203.0.113.7',
+    score: 0,
+    level: 'low',
+    verdict: 'allow',
+    signals: [],
+  });
+
+  // Browser signals alone raise nothing without IP data to compare them with
+  const client = { timeZone: 'America/New_York', languages: ['ja-JP'] };
+  assert.equal(assessRisk({ ip: '203.0.113.7' }, client).signals.length, 0);
+  assert.equal(assessRisk({ ...BASE, languages: [] }, client).signals.length, 1);
+});
+
+test('places single signals on the right side of each level boundary', () => {
+  const cases = [
+    [['relay'], undefined, 0.1, 'low'],
+    [['language_mismatch'], undefined, 0.1, 'low'],
+    [['threat'], 'low', 0.2, 'low'],
+    [['bogon'], undefined, 0.3, 'medium'],
+    [['timezone_mismatch'], undefined, 0.3, 'medium'],
+    [['vpn'], undefined, 0.35, 'medium'],
+    [['hosting'], undefined, 0.35, 'medium'],
+    [['proxy'], undefined, 0.4, 'medium'],
+    [['threat'], undefined, 0.4, 'medium'],
+    [['threat'], 'medium', 0.4, 'medium'],
+    [['automation'], undefined, 0.5, 'medium'],
+    [['tor'], undefined, 0.6, 'high'],
+    [['threat'], 'high', 0.7, 'high'],
+    [['threat'], 'CRITICAL', 0.9, 'high'],
+  ];
+
+  for (const [codes, threatLevel, score, level] of cases) {
+    const risk = assessRisk(...withSignals(codes, threatLevel));
+    assert.equal(risk.score, score, `${codes} ${threatLevel || ''}`);
+    assert.equal(risk.level, level, `${codes} ${threatLevel || ''}`);
+  }
+});
+
+test('combines weak signals into a higher level', () => {
+  const cases = [
+    // low -> low
+    [['relay', 'language_mismatch'], undefined, 0.19, 'low', 'allow'],
+    [['threat', 'relay'], 'low', 0.28, 'low', 'allow'],
+    // low -> medium
+    [['threat', 'relay', 'language_mismatch'], 'low', 0.352, 'medium', 'review'],
+    // medium -> medium
+    [['bogon', 'timezone_mismatch'], undefined, 0.51, 'medium', 'review'],
+    [['automation', 'language_mismatch'], undefined, 0.55, 'medium', 'review'],
+    [['vpn', 'hosting'], undefined, 0.577, 'medium', 'review'],
+    // medium -> high
+    [['vpn', 'hosting', 'language_mismatch'], undefined, 0.62, 'high', 'block'],
+    [['bogon', 'timezone_mismatch', 'relay', 'language_mismatch'], undefined, 0.603, 'high', 'block'],
+    [['proxy', 'vpn'], undefined, 0.61, 'high', 'block'],
+    [['timezone_mismatch', 'automation'], undefined, 0.65, 'high', 'block'],
+  ];
+
+  for (const [codes, threatLevel, score, level, verdict] of cases) {
+    const risk = assessRisk(...withSignals(codes, threatLevel));
+    assert.deepEqual(
+      { score: risk.score, level: risk.level, verdict: risk.verdict },
+      { score, level, verdict },
+      codes.join(' + ')
+    );
+  }
+});
+
+test('never lowers the level when a signal is added, for every combination', () => {
+  const levels = new Map();
+
+  for (let mask = 0; mask < 1 << CODES.length; mask++) {
+    const codes = CODES.filter((_, i) => mask & (1 << i));
+    const risk = assessRisk(...withSignals(codes));
+
+    assert.deepEqual(risk.signals.map(signal => signal.code).sort(), [...codes].sort());
+    assert.equal(risk.level, risk.score >= 0.6 ? 'high' : risk.score >= 0.3 ? 'medium' : 'low', codes.join(' + '));
+    levels.set(mask, LEVELS.indexOf(risk.level));
+
+    for (let i = 0; i < CODES.length; i++) {
+      const without = mask & ~(1 << i);
+      if (without !== mask) assert.ok(levels.get(without) <= levels.get(mask), codes.join(' + '));
+    }
+  }
+});
+
+test('ignores timezones with the same current offset and languages localised for the country', () => {
+  const [data] = withSignals([]);
+
+  assert.equal(assessRisk(data, { timeZone: 'Europe/Berlin' }).signals.length, 0);
+  assert.equal(assessRisk(data, { timeZone: 'Europe/Paris' }).signals.length, 0);
+  assert.equal(assessRisk(data, { timeZone: 'Not/AZone' }).signals.length, 0);
+  assert.equal(assessRisk(data, { languages: ['en-DE'] }).signals.length, 0);
+  assert.equal(assessRisk(data, { languages: ['en_de'] }).signals.length, 0);
+  assert.equal(assessRisk(data, { languages: ['en-US'] }).signals[0].code, 'language_mismatch');
+});
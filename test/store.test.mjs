@@ -0,0 +1,147 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createClient } from '../dist/index.mjs';
+import { installBrowser, jsonResponse, tick } from './helpers.mjs';
+
+const LOOKUP = { status: 'success', country_code: 'NL', city: 'Amsterdam' };
+
+/**
+ * Fetch that answers IP detection with the next address of the list and lookups with a location
+ */
+function createLookupFetch(ips) {
+  let index = 0;
+  return url => {
+    if (url.endsWith('/api/my-ip')) {
+      return Promise.resolve(jsonResponse({ ip: ips[Math.min(index++, ips.length - 1)] }));
+    }
+    if (url.includes('/api/ip-lookup')) return Promise.resolve(jsonResponse(LOOKUP));
+    return Promise.resolve(jsonResponse({ success: true }));
+  };
+}
+
+function setup(ips, config = {}) {
+  const browser = installBrowser({ fetch: createLookupFetch(ips) });
+  const client = createClient({ apiKey: 'leos_pk_test', ipCacheDuration: 0, ...config });
+  return { client, browser };
+}
+
+test('returns the same snapshot until the state changes', async () => {
+  const { client, browser } = setup(['192.0.2.1'], { namespace: 'store-stable' });
+
+  try {
+    const initial = client.getSnapshot();
+    assert.equal(client.getSnapshot(), initial);
+    assert.deepEqual(initial, {
+      ip: null,
+      location: null,
+      consent: { analytics: true, fingerprinting: true, storage: true },
+      error: null,
+    });
+
+    await client.getLocationInfo();
+    const loaded = client.getSnapshot();
+    assert.notEqual(loaded, initial);
+    assert.equal(loaded.ip, '192.0.2.1');
+    assert.equal(loaded.location.city, 'Amsterdam');
+    // The previous snapshot is never mutated
+    assert.equal(initial.ip, null);
+
+    // A lookup served from the memory cache changes nothing
+    await client.getLocationInfo();
+    assert.equal(client.getSnapshot(), loaded);
+  } finally {
+    browser.restore();
+  }
+});
+
+test('notifies listeners of IP changes, lookups and cache clears in order', async () => {
+  const { client, browser } = setup(['192.0.2.1', '192.0.2.1', '192.0.2.2'], { namespace: 'store-events' });
+  const events = [];
+  client.subscribe(event => events.push([event.type, client.getSnapshot().ip]));
+
+  try {
+    await client.getLocationInfo();
+    client.clearCache();
+    await client.getLocationInfo();
+    await client.getLocationInfo();
+
+    assert.deepEqual(events, [
+      ['ip:changed', '192.0.2.1'],
+      ['location:updated', '192.0.2.1'],
+      ['cache:cleared', '192.0.2.1'],
+      ['location:updated', '192.0.2.1'],
+      ['ip:changed', '192.0.2.2'],
+      ['location:updated', '192.0.2.2'],
+    ]);
+    assert.equal(client.getSnapshot().location.ip, '192.0.2.2');
+  } finally {
+    browser.restore();
+  }
+});
+
+test('publishes lookup errors and clears them on the next success', async t => {
+  const { client, browser } = setup(['not-an-ip', '192.0.2.1'], { namespace: 'store-errors' });
+  const events = [];
+  client.subscribe(event => events.push(event));
+  const logged = t.mock.method(console, 'error', () => {});
+
+  try {
+    // The IP detection endpoint returns an invalid address first
+    assert.equal(await client.getLocationInfo(), null);
+    assert.equal(events.at(-1).type, 'error');
+    assert.equal(events.at(-1).message, 'Error fetching location info');
+    assert.equal(client.getSnapshot().error, events.at(-1).error);
+    assert.equal(client.getSnapshot().error.name, 'ParseError');
+
+    await client.getLocationInfo();
+    assert.equal(client.getSnapshot().error, null);
+    assert.equal(logged.mock.callCount(), 1);
+  } finally {
+    browser.restore();
+  }
+});
+
+test('emits consent changes only when the consent differs', async () => {
+  const { client, browser } = setup(['192.0.2.1'], { namespace: 'store-consent' });
+  const events = [];
+  client.subscribe(event => events.push(event));
+
+  try {
+    client.setConsent({ analytics: true, fingerprinting: true, storage: true });
+    assert.equal(events.length, 0);
+
+    client.setConsent({ analytics: false, fingerprinting: true, storage: true });
+    await tick();
+    assert.deepEqual(events, [
+      { type: 'consent:changed', consent: { analytics: false, fingerprinting: true, storage: true } },
+    ]);
+    assert.deepEqual(client.getSnapshot().consent, events[0].consent);
+  } finally {
+    browser.restore();
+  }
+});
+
+test('removes listeners on unsubscribe and isolates failing listeners', async t => {
+  const { client, browser } = setup(['192.0.2.1'], { namespace: 'store-listeners' });
+  const received = [];
+  const logged = t.mock.method(console, 'error', () => {});
+
+  try {
+    client.subscribe(() => {
+      throw new Error('listener failed');
+    });
+    const unsubscribe = client.subscribe(event => received.push(event.type));
+
+    client.clearCache();
+    assert.deepEqual(received, ['cache:cleared']);
+    assert.equal(logged.mock.callCount(), 1);
+    assert.equal(logged.mock.calls[0].arguments[0], '[LocaleOS] Store listener failed:');
+
+    unsubscribe();
+    unsubscribe();
+    client.clearCache();
+    assert.deepEqual(received, ['cache:cleared']);
+  } finally {
+    browser.restore();
+  }
+});
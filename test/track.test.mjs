@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createClient, InvalidInputError } from '../dist/index.mjs';
+import { createFetch, installBrowser, jsonResponse, tick } from './helpers.mjs';
+
+test('resolves with a failure for an empty event name unless errorMode is throw', async () => {
+  const { fetch, calls } = createFetch(() => jsonResponse({ success: true, logId: 'log_1' }));
+  const browser = installBrowser({ fetch });
+  const error = console.error;
+  console.error = () => {};
+
+  try {
+    const silent = createClient({ apiKey: 'leos_pk_test', analytics: true, namespace: 'silent' });
+    const strict = createClient({ apiKey: 'leos_pk_test', analytics: true, namespace: 'strict', errorMode: 'throw' });
+    assert.deepEqual(await silent.track(''), {
+      success: false,
+      error: 'Event name is required to track an event',
+    });
+    await assert.rejects(strict.track(''), InvalidInputError);
+    await tick();
+    assert.ok(calls.every(call => JSON.parse(call.init.body).event === undefined));
+  } finally {
+    console.error = error;
+    browser.restore();
+  }
+});
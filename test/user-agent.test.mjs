@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { detectAutomation, getDeviceInfo, getDetailedDeviceInfo, parseUserAgent } from '../dist/index.mjs';
+import { installBrowser } from './helpers.mjs';
+
+const fixtures = JSON.parse(readFileSync(new URL('./fixtures/user-agents.json', import.meta.url), 'utf8'));
+
+function pick(result, expected) {
+  return Object.fromEntries(Object.keys(expected).map(key => [key, result[key]]));
+}
+
+for (const { userAgent, expected } of fixtures.userAgents) {
+  test(`parses ${userAgent}`, () => {
+    const result = parseUserAgent(userAgent);
+
+    assert.deepEqual(pick(result, expected), expected);
+    assert.equal(result.is_bot, expected.type === 'bot');
+    assert.equal(result.is_mobile, expected.type === 'mobile');
+    assert.equal(result.is_tablet, expected.type === 'tablet');
+    assert.equal(result.is_desktop, expected.type === 'desktop');
+  });
+}
+
+for (const fixture of fixtures.clientHints) {
+  test(`applies Client Hints for ${fixture.description}`, async () => {
+    const browser = installBrowser({
+      navigator: {
+        userAgent: fixture.userAgent,
+        userAgentData: {
+          ...fixture.userAgentData,
+          getHighEntropyValues: async () => fixture.highEntropyValues,
+        },
+      },
+    });
+
+    try {
+      assert.deepEqual(pick(getDeviceInfo(), fixture.expected), fixture.expected);
+      assert.deepEqual(
+        pick(await getDetailedDeviceInfo(), fixture.expectedWithHighEntropy),
+        fixture.expectedWithHighEntropy
+      );
+    } finally {
+      browser.restore();
+    }
+  });
+}
+
+test('needs more than weak signals to flag a desktop Chromium browser as automated', () => {
+  const browser = installBrowser({
+    navigator: {
+      userAgent: fixtures.clientHints[0].userAgent,
+      plugins: { length: 0 },
+    },
+  });
+
+  try {
+    const weak = detectAutomation();
+    assert.deepEqual(weak.reasons, ['no_plugins', 'missing_chrome_object']);
+    assert.equal(weak.isBot, false);
+
+    globalThis.navigator.webdriver = true;
+    assert.equal(detectAutomation().isBot, true);
+  } finally {
+    browser.restore();
+  }
+});
+
+test('never flags a browser as automated on non-definitive signals alone', () => {
+  const browser = installBrowser({
+    navigator: {
+      userAgent: fixtures.clientHints[0].userAgent,
+      platform: 'Linux x86_64',
+      languages: [],
+      plugins: { length: 0 },
+    },
+  });
+  globalThis.window.outerWidth = 0;
+  globalThis.window.outerHeight = 0;
+
+  try {
+    const all = detectAutomation();
+    assert.deepEqual(all.reasons.slice().sort(), [
+      'missing_chrome_object',
+      'no_languages',
+      'no_plugins',
+      'platform_mismatch',
+      'zero_window_size',
+    ]);
+    assert.equal(all.score, 0.417);
+    assert.equal(all.isBot, false);
+
+    // A lower threshold still lets them count
+    assert.equal(detectAutomation(0.4).isBot, true);
+
+    globalThis.navigator.webdriver = true;
+    assert.equal(detectAutomation().score, 1);
+  } finally {
+    browser.restore();
+  }
+});